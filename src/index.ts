@@ -5,12 +5,24 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import fetch from 'node-fetch';
-import { readFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
+import fetch, { FetchError } from 'node-fetch';
+import { readFileSync, existsSync, createWriteStream, mkdirSync, writeFileSync, renameSync, statSync, realpathSync } from 'fs';
+import { resolve, basename, extname, join } from 'path';
+import { pipeline } from 'stream/promises';
+import { createHash, randomBytes } from 'crypto';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
 
 interface JMAPSession {
   accountId: string;
@@ -19,62 +31,1019 @@ interface JMAPSession {
   uploadUrl: string;
   eventSourceUrl: string;
   state: string;
+  username: string;
+  capabilities: { [urn: string]: any };         // Session-level capabilities, including core limits
+  accountCapabilities: { [urn: string]: any };  // Capabilities of the selected account
+  accounts: { [accountId: string]: any };       // Every account the user can access, incl. shared ones
+  primaryAccounts: { [urn: string]: string };
+  limits: JMAPCoreLimits;
+}
+
+// urn:ietf:params:jmap:core limits (RFC 8620 section 2)
+interface JMAPCoreLimits {
+  maxSizeUpload: number;
+  maxConcurrentUpload: number;
+  maxSizeRequest: number;
+  maxConcurrentRequests: number;
+  maxCallsInRequest: number;
+  maxObjectsInGet: number;
+  maxObjectsInSet: number;
+}
+
+interface EmailAttachment {
+  path?: string;     // Local file path to read the attachment from
+  content?: string;  // Base64-encoded content (alternative to path)
+  blobId?: string;   // Already uploaded blob, e.g. an attachment being forwarded
+  name?: string;
+  type?: string;
+}
+
+interface EmailDraftData {
+  to: string[];
+  subject: string;
+  textBody?: string;
+  htmlBody?: string;
+  cc?: string[];
+  bcc?: string[];
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: EmailAttachment[];
+  fromIdentity?: string;  // Identity ID or email address to send from
+}
+
+// RFC 8621 Email/query FilterCondition; mailbox fields accept names or IDs
+interface EmailFilterCondition {
+  text?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  body?: string;
+  before?: string;
+  after?: string;
+  minSize?: number;
+  maxSize?: number;
+  hasAttachment?: boolean;
+  hasKeyword?: string;
+  notKeyword?: string;
+  allInThreadHaveKeyword?: string;
+  someInThreadHaveKeyword?: string;
+  noneInThreadHaveKeyword?: string;
+  inMailbox?: string;
+  inMailboxOtherThan?: string[];
+  header?: string[];
+}
+
+interface EmailFilterOperator {
+  operator: 'AND' | 'OR' | 'NOT';
+  conditions: EmailFilter[];
+}
+
+type EmailFilter = EmailFilterCondition | EmailFilterOperator;
+
+interface EmailSearchCriteria extends EmailFilterCondition {
+  query?: string;       // Shorthand for text
+  mailboxId?: string;   // Shorthand for inMailbox
+  filter?: EmailFilter; // Composite filter, ANDed with the fields above
+}
+
+// Query paging, see RFC 8620 section 5.5 (anchor takes precedence over position)
+interface PageCursor {
+  position?: number;
+  anchor?: string;
+  anchorOffset?: number;
+}
+
+type BulkEmailAction = 'mark_read' | 'mark_unread' | 'flag' | 'unflag' | 'move' | 'archive' | 'trash';
+
+// Which profile and account a tool call targets (defaults: active profile, its default account)
+interface ToolScope {
+  profile?: string;
+  accountId?: string;
 }
 
 interface JmapConfig {
   baseUrl: string;
-  username: string;
-  password: string;
+  username?: string;
+  password?: string;
+  passwordCommand?: string;                 // Shell command that prints the password (e.g. a keychain lookup)
+  passwordFile?: string;                    // File holding the password; must not be readable by others
+  authType?: 'basic' | 'bearer' | 'oauth';  // Defaults to bearer when only a token is given
+  token?: string;                           // Static bearer token
+  oauth?: JmapOAuthConfig;
   accountId?: string;
+  downloadDir?: string;         // Directory where get_attachment saves files
+  maxAttachmentBytes?: number;  // Size cap for attachments returned inline
+  cacheDir?: string;            // Directory for the on-disk email metadata cache
+}
+
+interface JmapOAuthConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  deviceAuthorizationUrl?: string;  // Device flow (RFC 8628), preferred when set
+  authorizationUrl?: string;        // Authorization-code flow with PKCE
+  redirectUri?: string;
+  tokenFile?: string;               // Where tokens are persisted (default: ~/.jmap-oauth-<hash>.json)
+}
+
+interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+// On-disk email metadata cache for one account, valid as of emailState
+interface EmailCacheData {
+  baseUrl: string;
+  accountId: string | null;  // null until the first session for the primary account
+  emailState: string | null;
+  mailboxes: any[];
+  emails: { [id: string]: any };
+  queries: { [key: string]: { state: string; query: any } };
 }
 
+const AUTH_TYPES: NonNullable<JmapConfig['authType']>[] = ['basic', 'bearer', 'oauth'];
+
+// Refresh OAuth access tokens this long before they expire
+const OAUTH_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// How long a passwordCommand may run before authentication gives up
+const PASSWORD_COMMAND_TIMEOUT_MS = 30 * 1000;
+
+// Default cap for attachment content returned inline to the model
+const DEFAULT_MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// EventSource keepalive interval requested from the server, and reconnect backoff cap
+const PUSH_PING_SECONDS = 30;
+const PUSH_MAX_BACKOFF_MS = 60 * 1000;
+
+// Resource URI prefixes affected by a StateChange for each JMAP data type
+const PUSH_RESOURCE_PREFIXES: { [type: string]: string[] } = {
+  Email: ['jmap://mailbox/', 'jmap://email/'],
+  Mailbox: ['jmap://mailboxes', 'jmap://mailbox/'],
+  CalendarEvent: ['jmap://calendar/'],
+  ContactCard: ['jmap://contact/'],
+  Contact: ['jmap://contact/'],
+};
+
+const JMAP_CORE = 'urn:ietf:params:jmap:core';
+const JMAP_MAIL = 'urn:ietf:params:jmap:mail';
+const JMAP_SUBMISSION = 'urn:ietf:params:jmap:submission';
+const JMAP_CALENDARS = 'urn:ietf:params:jmap:calendars';
+const JMAP_CONTACTS = 'urn:ietf:params:jmap:contacts';
+
+// Capabilities needed by each method's data type; everything else only needs core
+const METHOD_CAPABILITIES: { [type: string]: string[] } = {
+  Mailbox: [JMAP_MAIL],
+  Email: [JMAP_MAIL],
+  Thread: [JMAP_MAIL],
+  SearchSnippet: [JMAP_MAIL],
+  Identity: [JMAP_SUBMISSION],
+  EmailSubmission: [JMAP_MAIL, JMAP_SUBMISSION],
+  Calendar: [JMAP_CALENDARS],
+  CalendarEvent: [JMAP_CALENDARS],
+  AddressBook: [JMAP_CONTACTS],
+  Contact: [JMAP_CONTACTS],
+};
+
+// Tools hidden from tools/list when the account lacks the capability
+const TOOL_CAPABILITIES: { [tool: string]: string } = {
+  get_calendars: JMAP_CALENDARS,
+  get_calendar_events: JMAP_CALENDARS,
+  create_calendar_event: JMAP_CALENDARS,
+  update_calendar_event: JMAP_CALENDARS,
+  delete_calendar_event: JMAP_CALENDARS,
+  get_address_books: JMAP_CONTACTS,
+  get_contacts: JMAP_CONTACTS,
+  search_contacts: JMAP_CONTACTS,
+  create_contact: JMAP_CONTACTS,
+  update_contact: JMAP_CONTACTS,
+  delete_contact: JMAP_CONTACTS,
+};
+
+// Page size for /changes calls, and how long the mailbox cache is trusted without a Mailbox/changes check
+const CHANGES_PAGE_SIZE = 256;
+const MAILBOX_CACHE_TTL_MS = 30 * 1000;
+
+// Email headers kept in the on-disk cache (a superset of what get_emails and search_emails return)
+const CACHED_EMAIL_PROPERTIES = [
+  'id', 'subject', 'from', 'to', 'cc', 'bcc',
+  'receivedAt', 'sentAt', 'hasAttachment', 'preview',
+  'keywords', 'size', 'mailboxIds', 'threadId',
+];
+const CACHE_MAX_EMAILS = 5000;
+
+// Email search fields shared by search_emails and bulk_update_emails (see buildSearchFilter)
+const EMAIL_SEARCH_PROPERTIES = {
+  query: {
+    type: 'string',
+    description: 'Free text search across headers and body',
+  },
+  from: {
+    type: 'string',
+    description: 'Match text in the From header (address or name)',
+  },
+  to: {
+    type: 'string',
+    description: 'Match text in the To header',
+  },
+  cc: {
+    type: 'string',
+    description: 'Match text in the Cc header',
+  },
+  bcc: {
+    type: 'string',
+    description: 'Match text in the Bcc header',
+  },
+  subject: {
+    type: 'string',
+    description: 'Match text in the subject',
+  },
+  body: {
+    type: 'string',
+    description: 'Match text in the message body',
+  },
+  after: {
+    type: 'string',
+    description: 'Only emails received on or after this date (ISO 8601, e.g., "2024-01-15" or "2024-01-15T10:00:00Z")',
+  },
+  before: {
+    type: 'string',
+    description: 'Only emails received before this date (ISO 8601)',
+  },
+  minSize: {
+    type: 'number',
+    description: 'Minimum message size in bytes',
+  },
+  maxSize: {
+    type: 'number',
+    description: 'Maximum message size in bytes (exclusive)',
+  },
+  hasAttachment: {
+    type: 'boolean',
+    description: 'Only emails with (true) or without (false) attachments',
+  },
+  hasKeyword: {
+    type: 'string',
+    description: 'Only emails with this keyword (e.g., "$seen", "$flagged", "$answered" or a custom label)',
+  },
+  notKeyword: {
+    type: 'string',
+    description: 'Only emails without this keyword (e.g., "$seen" for unread emails)',
+  },
+  allInThreadHaveKeyword: {
+    type: 'string',
+    description: 'Only emails whose whole thread has this keyword',
+  },
+  someInThreadHaveKeyword: {
+    type: 'string',
+    description: 'Only emails where at least one email in the thread has this keyword',
+  },
+  noneInThreadHaveKeyword: {
+    type: 'string',
+    description: 'Only emails where no email in the thread has this keyword',
+  },
+  mailboxId: {
+    type: 'string',
+    description: 'Search within specific mailbox (name or ID, optional)',
+  },
+  inMailboxOtherThan: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Exclude emails that are only in these mailboxes (names or IDs, e.g., ["Trash", "Junk"])',
+  },
+  header: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Header match: ["Header-Name"] to require the header, or ["Header-Name", "text"] to match its value',
+  },
+  filter: {
+    type: 'object',
+    description: 'Composite filter for AND/OR/NOT logic, combined with the fields above using AND. Either a condition object using the field names above (with "text" and "inMailbox" instead of "query" and "mailboxId"), or an operator object {"operator": "AND" | "OR" | "NOT", "conditions": [ ...conditions or operators ]}. Example: {"operator": "OR", "conditions": [{"from": "alice@example.com"}, {"from": "bob@example.com"}]}',
+    properties: {
+      operator: {
+        type: 'string',
+        enum: ['AND', 'OR', 'NOT'],
+        description: 'How to combine the conditions (NOT matches emails matching none of them)',
+      },
+      conditions: {
+        type: 'array',
+        items: { type: 'object' },
+        description: 'Nested condition or operator objects',
+      },
+    },
+  },
+};
+
+// Attachment list accepted by the tools that compose emails
+const ATTACHMENTS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Local file path of the attachment' },
+      content: { type: 'string', description: 'Base64-encoded attachment content (alternative to path)' },
+      blobId: { type: 'string', description: 'Blob ID of an existing attachment on the server (alternative to path)' },
+      name: { type: 'string', description: 'File name (required with content, defaults to the file name for path)' },
+      type: { type: 'string', description: 'MIME type (e.g., "application/pdf"). Guessed from the file name if omitted' },
+    },
+  },
+  description: 'Files to attach, given as local paths, base64 content or existing blob IDs',
+};
+
 // Helper function to create default config from environment variables
 function createDefaultConfig(): JmapConfig | null {
   const baseUrl = process.env.JMAP_BASE_URL;
   const username = process.env.JMAP_USERNAME;
   const password = process.env.JMAP_PASSWORD;
+  const passwordCommand = process.env.JMAP_PASSWORD_COMMAND; // Secret from a command instead of the environment
+  const passwordFile = process.env.JMAP_PASSWORD_FILE;
   const accountId = process.env.JMAP_ACCOUNT_ID; // Optional account ID
-
-  if (!baseUrl || !username || !password) {
+  const downloadDir = process.env.JMAP_DOWNLOAD_DIR; // Optional attachment save directory
+  const maxAttachmentBytes = process.env.JMAP_MAX_ATTACHMENT_BYTES
+    ? parseInt(process.env.JMAP_MAX_ATTACHMENT_BYTES, 10)
+    : undefined;
+  const cacheDir = process.env.JMAP_CACHE_DIR; // Optional on-disk email cache directory
+  const token = process.env.JMAP_TOKEN; // Bearer token instead of username/password
+  const authType = process.env.JMAP_AUTH_TYPE as JmapConfig['authType'];
+
+  if (!baseUrl || !(token || (username && (password || passwordCommand || passwordFile)))) {
     return null;
   }
 
-  return {
-    baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash if present
+  return normalizeConfig({
+    baseUrl,
     username,
     password,
+    passwordCommand,
+    passwordFile,
+    authType,
+    token,
     accountId,
+    downloadDir,
+    maxAttachmentBytes,
+    cacheDir,
+  }, 'JMAP_AUTH_TYPE');
+}
+
+// Apply the same rules to environment and config file profiles: no trailing slash, a known authType
+function normalizeConfig(config: JmapConfig, source: string): JmapConfig {
+  if (config.authType && !AUTH_TYPES.includes(config.authType)) {
+    throw new Error(`Unknown auth type "${config.authType}" in ${source}. Use one of: ${AUTH_TYPES.join(', ')}`);
+  }
+  return {
+    ...config,
+    baseUrl: typeof config.baseUrl === 'string' ? config.baseUrl.replace(/\/$/, '') : config.baseUrl,
+  };
+}
+
+// A path in dir for name that doesn't overwrite an existing file: "report.pdf", "report (1).pdf", ...
+function uniqueFilePath(dir: string, name: string): string {
+  const extension = extname(name);
+  const stem = name.slice(0, name.length - extension.length);
+  let filePath = join(dir, name);
+  for (let n = 1; existsSync(filePath); n++) {
+    filePath = join(dir, `${stem} (${n})${extension}`);
+  }
+  return filePath;
+}
+
+// Guess a MIME type from a file name for attachments that don't specify one
+function guessMimeType(filename: string): string {
+  const mimeTypes: { [key: string]: string } = {
+    '.txt': 'text/plain',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.csv': 'text/csv',
+    '.md': 'text/markdown',
+    '.json': 'application/json',
+    '.xml': 'application/xml',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+    '.ics': 'text/calendar',
+    '.vcf': 'text/vcard',
+    '.eml': 'message/rfc822',
+  };
+
+  return mimeTypes[extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+// Format a JMAP EmailAddress as "Name <email>" for quoting headers
+function formatAddress(address: { name?: string | null; email: string }): string {
+  return address.name ? `${address.name} <${address.email}>` : address.email;
+}
+
+// Add a reply/forward prefix to a subject unless it's already there
+function prefixSubject(prefix: string, subject: string): string {
+  const trimmed = (subject || '').trim();
+  const pattern = new RegExp(`^${prefix}:`, 'i');
+  return pattern.test(trimmed) ? trimmed : `${prefix}: ${trimmed}`;
+}
+
+// Escape plain text for inclusion in an HTML body, keeping line breaks
+function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+// Work out when a calendar event ends, from its end time or its start plus ISO 8601 duration
+function eventEndTime(event: any): number {
+  const start = Date.parse(event.start);
+  if (event.end) {
+    return Date.parse(event.end);
+  }
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(event.duration || '');
+  if (!match) {
+    return start;
+  }
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part || 0));
+  return start + ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+// Build the paging arguments for a /query call
+function pageQueryArgs(page: PageCursor): any {
+  const args: any = { calculateTotal: true };
+  if (page.anchor) {
+    args.anchor = page.anchor;
+    args.anchorOffset = page.anchorOffset ?? 0;
+  } else if (page.position !== undefined) {
+    args.position = page.position;
+  }
+  return args;
+}
+
+// Summarize a /query result so callers can request the next page
+function paginationInfo(queryResult: any, limit: number): any {
+  const ids: string[] = queryResult?.ids || [];
+  const position: number = queryResult?.position ?? 0;
+  const total: number | undefined = queryResult?.total;
+  // Without a total, only a full page suggests there is more; servers may lower the limit they report
+  const hasMore = total !== undefined ? position + ids.length < total : ids.length >= (queryResult?.limit ?? limit);
+
+  return {
+    total: total ?? null,
+    position,
+    returned: ids.length,
+    hasMore,
+    nextPosition: hasMore ? position + ids.length : null,
+    // Anchoring on the last ID stays stable if new items arrive meanwhile
+    nextAnchor: hasMore && ids.length > 0 ? ids[ids.length - 1] : null,
+    nextAnchorOffset: hasMore ? 1 : null,
+    queryState: queryResult?.queryState ?? null,
+  };
+}
+
+// Render a thread from getThread as a compact transcript, oldest message first
+function renderThreadTranscript(thread: any, includeQuoted: boolean = false): string {
+  const transcript = thread.messages.map((message: any, index: number) => {
+    const from = (message.from || []).map(formatAddress).join(', ');
+    const to = [...(message.to || []), ...(message.cc || [])].map(formatAddress).join(', ');
+    const text = includeQuoted
+      ? message.text
+      : message.text
+        .split('\n')
+        .filter((line: string) => !line.trimStart().startsWith('>'))
+        .join('\n');
+
+    return [
+      `[${index + 1}/${thread.messages.length}] ${message.sentAt || message.receivedAt} (id: ${message.id})`,
+      `From: ${from}`,
+      `To: ${to}`,
+      `Subject: ${message.subject || ''}`,
+      ...(message.hasAttachment ? ['(has attachments)'] : []),
+      '',
+      text.replace(/\n{3,}/g, '\n\n').trim(),
+    ].join('\n');
+  }).join('\n\n----------------------------------------\n\n');
+
+  return `Thread ${thread.threadId} (${thread.messages.length} messages)\n\n${transcript}`;
+}
+
+// One line per email for prompt context
+function renderEmailList(emails: any[]): string {
+  return emails.map(email => {
+    const from = (email.from || []).map(formatAddress).join(', ');
+    const flags = email.keywords?.$flagged ? ' [flagged]' : '';
+    return `- (id: ${email.id}) ${email.receivedAt} | ${from} | ${email.subject || '(no subject)'}${flags}\n  ${email.preview || ''}`;
+  }).join('\n');
+}
+
+// Render mailboxes as an indented tree with unread/total counts
+function renderMailboxTree(mailboxes: any[]): string {
+  const byParent = new Map<string | null, any[]>();
+  const ids = new Set(mailboxes.map(mb => mb.id));
+  for (const mailbox of mailboxes) {
+    // Orphans (parent not visible to us) are shown at the top level
+    const parentId = mailbox.parentId && ids.has(mailbox.parentId) ? mailbox.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) || []), mailbox]);
+  }
+
+  const lines: string[] = [];
+  const render = (parentId: string | null, depth: number) => {
+    const children = (byParent.get(parentId) || []).sort((a, b) =>
+      (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || String(a.name).localeCompare(String(b.name))
+    );
+    for (const mailbox of children) {
+      const role = mailbox.role ? ` [${mailbox.role}]` : '';
+      const counts = `${mailbox.unreadEmails ?? 0} unread / ${mailbox.totalEmails ?? 0} total`;
+      lines.push(`${'  '.repeat(depth)}${mailbox.name}${role} (id: ${mailbox.id}) - ${counts}`);
+      render(mailbox.id, depth + 1);
+    }
+  };
+  render(null, 0);
+
+  return lines.join('\n');
+}
+
+function getAuthType(config: JmapConfig): 'basic' | 'bearer' | 'oauth' {
+  if (config.authType) {
+    if (!AUTH_TYPES.includes(config.authType)) {
+      throw new Error(`Unknown authType "${config.authType}". Use one of: ${AUTH_TYPES.join(', ')}`);
+    }
+    return config.authType;
+  }
+  if (config.oauth) {
+    return 'oauth';
+  }
+  return config.token && !hasPasswordSource(config) ? 'bearer' : 'basic';
+}
+
+function hasPasswordSource(config: JmapConfig): boolean {
+  return Boolean(config.password || config.passwordCommand || config.passwordFile);
+}
+
+// The password from passwordCommand, passwordFile or the plain password, in that order
+async function resolvePassword(config: JmapConfig): Promise<string> {
+  if (config.passwordCommand) {
+    try {
+      const { stdout } = await promisify(exec)(config.passwordCommand, { timeout: PASSWORD_COMMAND_TIMEOUT_MS });
+      const password = stdout.replace(/\r?\n$/, '');
+      if (!password) {
+        throw new Error('it printed nothing');
+      }
+      return password;
+    } catch (error) {
+      throw new Error(`passwordCommand failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (config.passwordFile) {
+    const passwordFile = resolve(config.passwordFile.replace(/^~(?=\/|$)/, process.env.HOME || '~'));
+    const stats = statSync(passwordFile);
+    if (process.platform !== 'win32' && (stats.mode & 0o077) !== 0) {
+      throw new Error(`Password file ${passwordFile} is accessible by other users (mode ${(stats.mode & 0o777).toString(8)}). Run: chmod 600 ${passwordFile}`);
+    }
+    return readFileSync(passwordFile, 'utf8').replace(/\r?\n$/, '');
+  }
+
+  if (!config.password) {
+    throw new Error('No password configured (set password, passwordCommand or passwordFile)');
+  }
+  return config.password;
+}
+
+function hasCredentials(config: JmapConfig): boolean {
+  if (!config.baseUrl) {
+    return false;
+  }
+
+  switch (getAuthType(config)) {
+    case 'bearer':
+      return Boolean(config.token);
+    case 'oauth':
+      return Boolean(config.oauth?.tokenUrl && config.oauth?.clientId);
+    default:
+      return Boolean(config.username && hasPasswordSource(config));
+  }
+}
+
+// OAuth 2.0 tokens for one profile, persisted so the refresh token survives restarts
+class JmapOAuth {
+  private config: JmapOAuthConfig;
+  private tokenFile: string;
+  private tokens: OAuthTokens | null = null;
+  private pendingAuthorization: { state: string; codeVerifier: string } | null = null;
+  private refreshing: Promise<string> | null = null;  // Shared so concurrent 401s spend the refresh token once
+
+  constructor(config: JmapConfig) {
+    if (!config.oauth?.tokenUrl || !config.oauth?.clientId) {
+      throw new Error('authType "oauth" requires oauth.tokenUrl and oauth.clientId');
+    }
+
+    this.config = config.oauth;
+    const key = createHash('sha256').update(`${config.baseUrl}|${config.oauth.clientId}|${config.username || ''}`).digest('hex').slice(0, 16);
+    this.tokenFile = config.oauth.tokenFile || resolve(process.env.HOME || '~', `.jmap-oauth-${key}.json`);
+  }
+
+  private loadTokens(): OAuthTokens | null {
+    if (!this.tokens && existsSync(this.tokenFile)) {
+      try {
+        this.tokens = JSON.parse(readFileSync(this.tokenFile, 'utf8'));
+      } catch (error) {
+        console.error(`Ignoring unreadable OAuth token file ${this.tokenFile}: ${error}`);
+      }
+    }
+    return this.tokens;
+  }
+
+  private saveTokens(response: any): string {
+    this.tokens = {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token || this.tokens?.refreshToken,
+      expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+    };
+    const tempPath = `${this.tokenFile}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.tokens, null, 2), { mode: 0o600 });
+    renameSync(tempPath, this.tokenFile);
+    console.error(`Saved OAuth tokens to ${this.tokenFile}`);
+    return this.tokens.accessToken;
+  }
+
+  private async postForm(url: string, params: { [key: string]: string }): Promise<any> {
+    const body = new URLSearchParams({
+      ...params,
+      client_id: this.config.clientId,
+      ...(this.config.clientSecret ? { client_secret: this.config.clientSecret } : {}),
+    });
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+      },
+      body,
+    });
+
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error(`OAuth request to ${url} failed: ${response.status} ${response.statusText}. Response: ${text}`);
+    }
+  }
+
+  private checkTokenResponse(data: any, action: string): any {
+    if (data.error || !data.access_token) {
+      throw new Error(`OAuth ${action} failed: ${data.error_description || data.error || 'no access token returned'}`);
+    }
+    return data;
+  }
+
+  // Current access token, refreshed shortly before it expires
+  async getAccessToken(): Promise<string> {
+    const tokens = this.loadTokens();
+    if (!tokens) {
+      throw new Error('No OAuth token yet. Use the oauth_login tool to sign in.');
+    }
+    if (tokens.expiresAt && tokens.expiresAt - OAUTH_EXPIRY_MARGIN_MS < Date.now()) {
+      return this.refresh(tokens.accessToken);
+    }
+    return tokens.accessToken;
+  }
+
+  // Refresh after the server rejected an access token, unless another client already did
+  async refresh(rejectedToken?: string | null): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshTokens(rejectedToken).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async refreshTokens(rejectedToken?: string | null): Promise<string> {
+    this.tokens = null;
+    const tokens = this.loadTokens();
+    if (tokens && rejectedToken && tokens.accessToken !== rejectedToken) {
+      return tokens.accessToken;
+    }
+    if (!tokens?.refreshToken) {
+      throw new Error('The OAuth access token was rejected and no refresh token is stored. Use the oauth_login tool to sign in again.');
+    }
+
+    console.error('Refreshing OAuth access token');
+    const data = await this.postForm(this.config.tokenUrl, {
+      grant_type: 'refresh_token',
+      refresh_token: tokens.refreshToken,
+    });
+    return this.saveTokens(this.checkTokenResponse(data, 'token refresh'));
+  }
+
+  // Start a device flow login; tokens are polled for in the background
+  async startDeviceLogin(onComplete: (error?: Error) => void): Promise<any> {
+    if (!this.config.deviceAuthorizationUrl) {
+      throw new Error('oauth.deviceAuthorizationUrl is not configured');
+    }
+
+    const device = await this.postForm(this.config.deviceAuthorizationUrl, {
+      ...(this.config.scope ? { scope: this.config.scope } : {}),
+    });
+    if (device.error || !device.device_code) {
+      throw new Error(`OAuth device authorization failed: ${device.error_description || device.error || 'no device code returned'}`);
+    }
+
+    const poll = async () => {
+      let interval = (device.interval || 5) * 1000;
+      const deadline = Date.now() + (device.expires_in || 600) * 1000;
+      while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, interval));
+        const data = await this.postForm(this.config.tokenUrl, {
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+          device_code: device.device_code,
+        });
+
+        if (data.access_token) {
+          this.saveTokens(data);
+          return;
+        }
+        if (data.error === 'slow_down') {
+          interval += 5000;
+        } else if (data.error !== 'authorization_pending') {
+          throw new Error(`OAuth device login failed: ${data.error_description || data.error}`);
+        }
+      }
+      throw new Error('OAuth device login expired before it was approved');
+    };
+
+    poll().then(() => onComplete(), error => onComplete(error));
+
+    return {
+      verificationUri: device.verification_uri,
+      verificationUriComplete: device.verification_uri_complete,
+      userCode: device.user_code,
+      expiresIn: device.expires_in,
+    };
+  }
+
+  // Authorization URL for the authorization-code flow, with a PKCE challenge
+  authorizationUrl(): string {
+    if (!this.config.authorizationUrl || !this.config.redirectUri) {
+      throw new Error('oauth.authorizationUrl and oauth.redirectUri are required for the authorization-code flow');
+    }
+
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const state = randomBytes(16).toString('base64url');
+    this.pendingAuthorization = { state, codeVerifier };
+
+    const url = new URL(this.config.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    if (this.config.scope) {
+      url.searchParams.set('scope', this.config.scope);
+    }
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', createHash('sha256').update(codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  // Exchange an authorization code, or the full redirect URL containing it, for tokens
+  async exchangeCode(codeOrRedirectUrl: string): Promise<void> {
+    if (!this.pendingAuthorization) {
+      throw new Error('No authorization in progress. Call oauth_login without a code first.');
+    }
+
+    let code = codeOrRedirectUrl.trim();
+    if (/^https?:\/\//.test(code)) {
+      const redirect = new URL(code);
+      if (redirect.searchParams.get('state') !== this.pendingAuthorization.state) {
+        throw new Error('OAuth state mismatch; start the login again');
+      }
+      code = redirect.searchParams.get('code') || '';
+    }
+
+    const data = await this.postForm(this.config.tokenUrl, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri!,
+      code_verifier: this.pendingAuthorization.codeVerifier,
+    });
+    this.saveTokens(this.checkTokenResponse(data, 'code exchange'));
+    this.pendingAuthorization = null;
+  }
+}
+
+// Work out who a reply goes to, leaving out our own addresses and duplicates
+function replyRecipients(original: any, ownAddresses: string[], replyAll: boolean): { to: string[]; cc: string[] } {
+  const seen = new Set<string>(ownAddresses);
+  const collect = (addresses: any[] | null | undefined): string[] => {
+    const result: string[] = [];
+    for (const address of addresses || []) {
+      const email = address.email?.toLowerCase();
+      if (email && !seen.has(email)) {
+        seen.add(email);
+        result.push(address.email);
+      }
+    }
+    return result;
   };
+
+  // Reply goes to Reply-To if present, otherwise to the original sender
+  const replyTarget = original.replyTo && original.replyTo.length > 0 ? original.replyTo : original.from;
+  let to = collect(replyTarget);
+  let cc: string[] = [];
+
+  if (replyAll) {
+    to = [...to, ...collect(original.to)];
+    cc = collect(original.cc);
+  }
+
+  // Replying to our own message: send it back to the original recipients
+  if (to.length === 0) {
+    to = (original.to || []).map((address: any) => address.email);
+  }
+
+  return { to, cc };
+}
+
+// Connection failures (as opposed to JMAP errors) trigger the offline cache fallback
+function isNetworkError(error: unknown): boolean {
+  return error instanceof FetchError
+    || (error instanceof Error && /(JMAP|Session) request failed: 5\d\d/.test(error.message))
+    || (error instanceof Error && error.cause !== undefined && isNetworkError(error.cause));
+}
+
+function addressesMatch(addresses: any[] | null | undefined, needle: string): boolean {
+  return (addresses || []).some(address =>
+    `${address.name || ''} ${address.email || ''}`.toLowerCase().includes(needle)
+  );
+}
+
+// Evaluate a JMAP Email FilterCondition/FilterOperator against cached headers.
+// Body text is not cached, so body and text searches only see the preview.
+function matchesEmailFilter(email: any, filter: any): boolean {
+  if (filter.operator) {
+    const results = (filter.conditions || []).map((condition: any) => matchesEmailFilter(email, condition));
+    if (filter.operator === 'AND') return results.every(Boolean);
+    if (filter.operator === 'OR') return results.some(Boolean);
+    return !results.some(Boolean);
+  }
+
+  const keywords = email.keywords || {};
+  const mailboxIds = Object.keys(email.mailboxIds || {});
+  const lower = (value: string) => value.toLowerCase();
+
+  for (const [key, value] of Object.entries(filter) as [string, any][]) {
+    switch (key) {
+      case 'text': {
+        const needle = lower(value);
+        const haystack = [email.subject, email.preview].filter(Boolean).join(' ').toLowerCase();
+        if (!haystack.includes(needle)
+          && !addressesMatch(email.from, needle)
+          && !addressesMatch(email.to, needle)
+          && !addressesMatch(email.cc, needle)
+          && !addressesMatch(email.bcc, needle)) {
+          return false;
+        }
+        break;
+      }
+      case 'from':
+      case 'to':
+      case 'cc':
+      case 'bcc':
+        if (!addressesMatch(email[key], lower(value))) return false;
+        break;
+      case 'subject':
+        if (!lower(email.subject || '').includes(lower(value))) return false;
+        break;
+      case 'body':
+        if (!lower(email.preview || '').includes(lower(value))) return false;
+        break;
+      case 'before':
+        if (!(Date.parse(email.receivedAt) < Date.parse(value))) return false;
+        break;
+      case 'after':
+        if (!(Date.parse(email.receivedAt) >= Date.parse(value))) return false;
+        break;
+      case 'minSize':
+        if (!(email.size >= value)) return false;
+        break;
+      case 'maxSize':
+        if (!(email.size < value)) return false;
+        break;
+      case 'hasAttachment':
+        if (Boolean(email.hasAttachment) !== value) return false;
+        break;
+      case 'hasKeyword':
+        if (!keywords[value]) return false;
+        break;
+      case 'notKeyword':
+        if (keywords[value]) return false;
+        break;
+      case 'inMailbox':
+        if (!mailboxIds.includes(value)) return false;
+        break;
+      case 'inMailboxOtherThan':
+        if (!mailboxIds.some(id => !value.includes(id))) return false;
+        break;
+      default:
+        throw new Error(`The "${key}" filter is not available while offline`);
+    }
+  }
+
+  return true;
 }
 
 class JmapJMAPClient {
   private config: JmapConfig;
   private session: JMAPSession | null = null;
   private authToken: string | null = null;
+  private oauth: JmapOAuth | null = null;
 
   constructor(config: JmapConfig) {
     this.config = config;
+
+    // Load before connecting so an unreachable server can still be answered from the cache
+    if (config.cacheDir) {
+      this.loadEmailCache(config.cacheDir);
+    }
+  }
+
+  // The credential for the configured auth type: base64 user:password, or a bearer/OAuth access token
+  private async resolveCredentials(): Promise<string> {
+    switch (getAuthType(this.config)) {
+      case 'bearer':
+        if (!this.config.token) {
+          throw new Error('authType "bearer" requires a token (JMAP_TOKEN)');
+        }
+        return this.config.token;
+      case 'oauth':
+        this.oauth = this.oauth || new JmapOAuth(this.config);
+        return this.oauth.getAccessToken();
+      default:
+        return Buffer.from(`${this.config.username}:${await resolvePassword(this.config)}`).toString('base64');
+    }
+  }
+
+  private authorizationHeader(credentials: string | null = this.authToken): string {
+    return getAuthType(this.config) === 'basic' ? `Basic ${credentials}` : `Bearer ${credentials}`;
+  }
+
+  // Authenticated fetch; with OAuth, a 401 refreshes the access token and retries once
+  private async fetchWithAuth(url: string, init: any) {
+    if (this.oauth) {
+      this.authToken = await this.oauth.getAccessToken();
+    }
+
+    const send = () => fetch(url, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': this.authorizationHeader() },
+    });
+
+    let response = await send();
+    if (response.status === 401 && this.oauth) {
+      console.error('Access token rejected, refreshing OAuth token');
+      this.authToken = await this.oauth.refresh(this.authToken);
+      response = await send();
+    }
+    return response;
   }
 
   private async authenticate(): Promise<void> {
-    console.error(`Attempting authentication to ${this.config.baseUrl}`);
-    
-    // Try basic auth first (most common for Jmap)
-    const credentials = Buffer.from(`${this.config.username}:${this.config.password}`).toString('base64');
+    console.error(`Attempting authentication to ${this.config.baseUrl} (${getAuthType(this.config)})`);
     
     // First, try to get JMAP session to test if server is reachable
     try {
+      let credentials = await this.resolveCredentials();
+
       const sessionUrl = `${this.config.baseUrl}/.well-known/jmap`;
       console.error(`Testing JMAP discovery at: ${sessionUrl}`);
       
-      const sessionResponse = await fetch(sessionUrl, {
+      const probe = () => fetch(sessionUrl, {
         method: 'GET',
         headers: {
-          'Authorization': `Basic ${credentials}`,
+          'Authorization': this.authorizationHeader(credentials),
           'Content-Type': 'application/json',
         },
       });
 
+      let sessionResponse = await probe();
+      if (sessionResponse.status === 401 && this.oauth) {
+        credentials = await this.oauth.refresh(credentials);
+        sessionResponse = await probe();
+      }
+
       console.error(`JMAP discovery response status: ${sessionResponse.status}`);
       
       if (!sessionResponse.ok) {
@@ -94,7 +1063,7 @@ class JmapJMAPClient {
           const altResponse = await fetch(altUrl, {
             method: 'GET',
             headers: {
-              'Authorization': `Basic ${credentials}`,
+              'Authorization': this.authorizationHeader(credentials),
               'Content-Type': 'application/json',
             },
           });
@@ -110,12 +1079,12 @@ class JmapJMAPClient {
         throw new Error(`JMAP discovery failed: ${sessionResponse.status} ${sessionResponse.statusText}. Response: ${errorText}`);
       }
 
-      this.authToken = credentials; // Use basic auth token
+      this.authToken = credentials;
       console.error('Authentication successful');
       
     } catch (error) {
       console.error(`Authentication error details:`, error);
-      throw new Error(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 
@@ -127,10 +1096,9 @@ class JmapJMAPClient {
     const sessionUrl = `${this.config.baseUrl}/.well-known/jmap`;
     console.error(`Getting JMAP session from: ${sessionUrl}`);
     
-    const response = await fetch(sessionUrl, {
+    const response = await this.fetchWithAuth(sessionUrl, {
       method: 'GET',
       headers: {
-        'Authorization': `Basic ${this.authToken}`,
         'Content-Type': 'application/json',
       },
     });
@@ -152,122 +1120,135 @@ class JmapJMAPClient {
       uploadUrl: sessionData.uploadUrl,
       eventSourceUrl: sessionData.eventSourceUrl,
       state: sessionData.state,
+      username: sessionData.username,
+      capabilities: sessionData.capabilities || {},
+      accountCapabilities: {},
+      accounts: sessionData.accounts || {},
+      primaryAccounts: sessionData.primaryAccounts || {},
+      limits: {
+        maxSizeUpload: sessionData.capabilities?.[JMAP_CORE]?.maxSizeUpload || 50 * 1024 * 1024,
+        maxConcurrentUpload: sessionData.capabilities?.[JMAP_CORE]?.maxConcurrentUpload || 4,
+        maxSizeRequest: sessionData.capabilities?.[JMAP_CORE]?.maxSizeRequest || 10 * 1024 * 1024,
+        maxConcurrentRequests: sessionData.capabilities?.[JMAP_CORE]?.maxConcurrentRequests || 4,
+        maxCallsInRequest: sessionData.capabilities?.[JMAP_CORE]?.maxCallsInRequest || 16,
+        maxObjectsInGet: sessionData.capabilities?.[JMAP_CORE]?.maxObjectsInGet || 500,
+        maxObjectsInSet: sessionData.capabilities?.[JMAP_CORE]?.maxObjectsInSet || 500,
+      },
     };
+    this.session.accountCapabilities = sessionData.accounts?.[this.session.accountId]?.accountCapabilities || {};
 
     console.error(`Using account ID: ${this.session.accountId}`);
     console.error(`API URL: ${this.session.apiUrl}`);
+
+    // The primary account can change; its cache is only valid for the account it was built from
+    if (this.emailCache) {
+      if (this.emailCache.accountId && this.emailCache.accountId !== this.session.accountId) {
+        console.error(`Discarding email cache for account ${this.emailCache.accountId}`);
+        this.emailCache = this.emptyEmailCache();
+      }
+      this.emailCache.accountId = this.session.accountId;
+    }
     
     return this.session;
   }
 
-  private mailboxCache: any[] = [];
+  // One cache file per server, user and account (or the user's primary account)
+  private loadEmailCache(cacheDir: string): void {
+    const account = `${this.config.username || ''}|${this.config.accountId || 'primary'}`;
+    const key = createHash('sha256').update(`${this.config.baseUrl}|${account}`).digest('hex').slice(0, 16);
+    this.emailCachePath = join(cacheDir, `email-cache-${key}.json`);
+    this.emailCache = this.emptyEmailCache();
 
-  private async jmapRequest(methodCalls: any[]): Promise<any> {
-    if (!this.session) {
-      await this.getSession();
+    if (existsSync(this.emailCachePath)) {
+      try {
+        this.emailCache = JSON.parse(readFileSync(this.emailCachePath, 'utf8'));
+        console.error(`Loaded email cache from ${this.emailCachePath} (${Object.keys(this.emailCache!.emails).length} emails)`);
+      } catch (error) {
+        console.error(`Ignoring unreadable email cache ${this.emailCachePath}: ${error}`);
+      }
     }
+  }
 
-    console.error(`Making JMAP request to: ${this.session!.apiUrl}`);
-    console.error(`Method calls:`, JSON.stringify(methodCalls, null, 2));
+  private emptyEmailCache(): EmailCacheData {
+    return {
+      baseUrl: this.config.baseUrl,
+      accountId: this.config.accountId || null,
+      emailState: null,
+      mailboxes: [],
+      emails: {},
+      queries: {},
+    };
+  }
 
-    const response = await fetch(this.session!.apiUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${this.authToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        using: [
-          'urn:ietf:params:jmap:core',
-          'urn:ietf:params:jmap:mail',
-          'urn:ietf:params:jmap:calendars',
-          'urn:ietf:params:jmap:contacts',
-        ],
-        methodCalls,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`JMAP request failed: ${response.status} ${response.statusText}`);
-      console.error(`Response body: ${errorText}`);
-      throw new Error(`JMAP request failed: ${response.status} ${response.statusText}. Response: ${errorText}`);
-    }
-
-    const data = await response.json() as any;
-    console.error('JMAP response:', JSON.stringify(data, null, 2));
-    return data;
+  // Whether there is anything to answer from while the server is unreachable
+  hasOfflineCache(): boolean {
+    return Boolean(this.emailCache && (this.emailCache.mailboxes.length > 0 || Object.keys(this.emailCache.emails).length > 0));
   }
 
-  private async findMailboxByName(mailboxName: string): Promise<string | null> {
-    if (this.mailboxCache.length === 0) {
-      const mailboxes = await this.getMailboxes();
-      this.mailboxCache = mailboxes.list || [];
+  private saveEmailCache(): void {
+    if (!this.emailCache || !this.emailCachePath || !this.config.cacheDir) {
+      return;
     }
 
-    const normalizedName = mailboxName.toLowerCase().trim();
-    
-    // Try exact match first
-    let mailbox = this.mailboxCache.find(mb => 
-      mb.name.toLowerCase() === normalizedName
-    );
-    
-    // Try partial match
-    if (!mailbox) {
-      mailbox = this.mailboxCache.find(mb => 
-        mb.name.toLowerCase().includes(normalizedName)
-      );
+    // Keep the most recent emails, and only queries that are still current
+    const emails = Object.values(this.emailCache.emails);
+    if (emails.length > CACHE_MAX_EMAILS) {
+      emails.sort((a, b) => Date.parse(b.receivedAt) - Date.parse(a.receivedAt));
+      this.emailCache.emails = Object.fromEntries(emails.slice(0, CACHE_MAX_EMAILS).map(email => [email.id, email]));
     }
-    
-    // Try role-based matching for common mailbox types
-    if (!mailbox) {
-      const roleMap: { [key: string]: string } = {
-        'inbox': 'inbox',
-        'sent': 'sent',
-        'draft': 'drafts',
-        'drafts': 'drafts',
-        'trash': 'trash',
-        'deleted': 'trash',
-        'spam': 'junk',
-        'junk': 'junk',
-        'archive': 'archive',
-        'outbox': 'outbox'
-      };
-      
-      const role = roleMap[normalizedName];
-      if (role) {
-        mailbox = this.mailboxCache.find(mb => mb.role === role);
+    for (const [key, entry] of Object.entries(this.emailCache.queries)) {
+      if (entry.state !== this.emailCache.emailState) {
+        delete this.emailCache.queries[key];
       }
     }
-    
-    return mailbox ? mailbox.id : null;
+
+    try {
+      mkdirSync(this.config.cacheDir, { recursive: true, mode: 0o700 });
+      const tempPath = `${this.emailCachePath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(this.emailCache), { mode: 0o600 });
+      renameSync(tempPath, this.emailCachePath);
+    } catch (error) {
+      console.error(`Failed to write email cache ${this.emailCachePath}: ${error}`);
+    }
   }
 
-  async getMailboxes(): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Mailbox/get', {
-        accountId: this.session?.accountId,
-        ids: null,
-      }, 'mailboxes'],
-    ]);
+  // Bring cached headers up to date with Email/changes; changed emails are dropped and refetched on demand
+  private async syncEmailCache(): Promise<void> {
+    const cache = this.emailCache!;
+    if (!cache.emailState) {
+      cache.emailState = await this.getCurrentState('Email');
+      return;
+    }
 
-    const result = response.methodResponses[0][1];
-    
-    // Update mailbox cache for name resolution
-    this.mailboxCache = result.list || [];
-    
-    return result;
+    const changes = await this.getChanges('Email', cache.emailState);
+    if (changes.cannotCalculateChanges) {
+      cache.emails = {};
+      cache.queries = {};
+      cache.emailState = await this.getCurrentState('Email');
+      return;
+    }
+
+    for (const id of [...changes.created, ...changes.updated, ...changes.destroyed]) {
+      delete cache.emails[id];
+    }
+    cache.emailState = changes.newState;
   }
 
-  async getEmails(mailboxId?: string, limit: number = 50): Promise<any> {
-    // If no mailboxId specified, get from all mailboxes
-    if (!mailboxId) {
+  // Run an Email/query plus header fetch, served from the on-disk cache when it is current
+  // and from a local search over cached headers when the server is unreachable
+  private async queryEmails(filter: any, collapseThreads: boolean, limit: number, page: PageCursor, properties: string[]): Promise<{ query: any; emails: any; source: string }> {
+    const queryArgs: any = {
+      accountId: this.session?.accountId,
+      ...(filter ? { filter } : {}),
+      sort: [{ property: 'receivedAt', isAscending: false }],
+      collapseThreads,
+      limit,
+      ...pageQueryArgs(page),
+    };
+
+    if (!this.emailCache) {
       const response = await this.jmapRequest([
-        ['Email/query', {
-          accountId: this.session?.accountId,
-          sort: [{ property: 'receivedAt', isAscending: false }],
-          limit,
-        }, 'query'],
+        ['Email/query', queryArgs, 'query'],
         ['Email/get', {
           accountId: this.session?.accountId,
           '#ids': {
@@ -275,1423 +1256,5859 @@ class JmapJMAPClient {
             name: 'Email/query',
             path: '/ids',
           },
-          properties: [
-            'id', 'subject', 'from', 'to', 'cc', 'bcc', 
-            'receivedAt', 'sentAt', 'hasAttachment', 'preview',
-            'keywords', 'size', 'mailboxIds'
-          ],
+          properties,
         }, 'emails'],
       ]);
 
       return {
         query: response.methodResponses[0][1],
         emails: response.methodResponses[1][1],
-        mailboxUsed: 'all',
+        source: 'server',
       };
     }
 
-    // If mailboxId looks like a name rather than ID, try to resolve it
-    let resolvedMailboxId: string | undefined = mailboxId;
-    if (mailboxId && !mailboxId.match(/^[a-z]$/)) {  // Changed from startsWith('M') to single letter check
-      const foundMailboxId = await this.findMailboxByName(mailboxId);
-      if (!foundMailboxId) {
-        throw new Error(`Mailbox "${mailboxId}" not found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
-      }
-      resolvedMailboxId = foundMailboxId;
-    }
-    
-    const filter = resolvedMailboxId ? { inMailbox: resolvedMailboxId } : {};
-    
-    const response = await this.jmapRequest([
-      ['Email/query', {
-        accountId: this.session?.accountId,
-        filter,
-        sort: [{ property: 'receivedAt', isAscending: false }],
-        limit,
-      }, 'query'],
-      ['Email/get', {
-        accountId: this.session?.accountId,
-        '#ids': {
-          resultOf: 'query',
-          name: 'Email/query',
-          path: '/ids',
-        },
-        properties: [
-          'id', 'subject', 'from', 'to', 'cc', 'bcc', 
-          'receivedAt', 'sentAt', 'hasAttachment', 'preview',
-          'keywords', 'size', 'mailboxIds'
-        ],
-      }, 'emails'],
-    ]);
-
-    return {
-      query: response.methodResponses[0][1],
-      emails: response.methodResponses[1][1],
-      mailboxUsed: resolvedMailboxId,
-    };
-  }
+    const cache = this.emailCache;
+    const cacheKey = JSON.stringify({ filter, collapseThreads, limit, page });
 
-  async getEmailById(emailId: string): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Email/get', {
-        accountId: this.session?.accountId,
-        ids: [emailId],
-        properties: [
-          'id', 'subject', 'from', 'to', 'cc', 'bcc',
-          'receivedAt', 'sentAt', 'hasAttachment', 'preview',
-          'bodyStructure', 'bodyValues', 'textBody', 'htmlBody',
-          'keywords', 'size', 'references', 'inReplyTo'
-        ],
-        bodyProperties: ['partId', 'type', 'size'],
-        fetchTextBodyValues: true,
-        fetchHTMLBodyValues: true,
-        maxBodyValueBytes: 1024 * 1024, // 1MB
-      }, 'email'],
-    ]);
+    try {
+      await this.syncEmailCache();
+
+      let entry = cache.queries[cacheKey];
+      let source = 'cache';
+      if (!entry || entry.state !== cache.emailState) {
+        const stateAtQuery = cache.emailState!;
+        const response = await this.jmapRequest([['Email/query', queryArgs, 'query']]);
+        entry = { state: stateAtQuery, query: response.methodResponses[0][1] };
+        cache.queries[cacheKey] = entry;
+        source = 'server';
+      }
 
-    return response.methodResponses[0][1];
-  }
+      // Only download headers that are not cached yet
+      const ids: string[] = entry.query.ids || [];
+      const missingIds = ids.filter(id => !cache.emails[id]);
+      if (missingIds.length > 0) {
+        const { list } = await this.getInBatches('Email', missingIds, CACHED_EMAIL_PROPERTIES);
+        for (const email of list) {
+          cache.emails[email.id] = email;
+        }
+        source = 'server';
+      }
 
-  async searchEmails(query: string, limit: number = 20, mailboxId?: string): Promise<any> {
-    // If mailboxId looks like a name rather than ID, try to resolve it
-    let resolvedMailboxId: string | undefined = mailboxId;
-    if (mailboxId && !mailboxId.startsWith('M')) {
-      const foundMailboxId = await this.findMailboxByName(mailboxId);
-      if (!foundMailboxId) {
-        throw new Error(`Mailbox "${mailboxId}" not found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
+      this.saveEmailCache();
+      return {
+        query: entry.query,
+        emails: {
+          accountId: this.session?.accountId,
+          state: cache.emailState,
+          list: ids.map(id => cache.emails[id]).filter(Boolean),
+          notFound: ids.filter(id => !cache.emails[id]),
+        },
+        source,
+      };
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
       }
-      resolvedMailboxId = foundMailboxId;
+      console.error(`Server unreachable, searching cached emails: ${error instanceof Error ? error.message : String(error)}`);
+      return this.queryCachedEmails(filter, collapseThreads, limit, page);
     }
+  }
 
-    const filter: any = {
-      text: query,
-    };
-    
-    if (resolvedMailboxId) {
-      filter.inMailbox = resolvedMailboxId;
+  private queryCachedEmails(filter: any, collapseThreads: boolean, limit: number, page: PageCursor): { query: any; emails: any; source: string } {
+    const cache = this.emailCache!;
+    let matches = Object.values(cache.emails)
+      .filter(email => !filter || matchesEmailFilter(email, filter))
+      .sort((a, b) => Date.parse(b.receivedAt) - Date.parse(a.receivedAt));
+
+    if (collapseThreads) {
+      const seenThreads = new Set<string>();
+      matches = matches.filter(email => {
+        if (seenThreads.has(email.threadId)) return false;
+        seenThreads.add(email.threadId);
+        return true;
+      });
     }
 
-    const response = await this.jmapRequest([
-      ['Email/query', {
-        accountId: this.session?.accountId,
-        filter,
-        sort: [{ property: 'receivedAt', isAscending: false }],
-        limit,
-      }, 'search'],
-      ['Email/get', {
-        accountId: this.session?.accountId,
-        '#ids': {
-          resultOf: 'search',
-          name: 'Email/query',
-          path: '/ids',
-        },
-        properties: [
-          'id', 'subject', 'from', 'to', 'receivedAt', 
-          'preview', 'hasAttachment', 'keywords', 'mailboxIds'
-        ],
-      }, 'emails'],
-    ]);
+    let position = page.position ?? 0;
+    if (page.anchor) {
+      const anchorIndex = matches.findIndex(email => email.id === page.anchor);
+      if (anchorIndex === -1) {
+        throw new Error(`Anchor ${page.anchor} is not in the offline cache`);
+      }
+      position = Math.max(0, anchorIndex + (page.anchorOffset ?? 0));
+    }
 
+    const list = matches.slice(position, position + limit);
     return {
-      query: response.methodResponses[0][1],
-      emails: response.methodResponses[1][1],
-      mailboxUsed: resolvedMailboxId,
+      query: {
+        accountId: cache.accountId,
+        ids: list.map(email => email.id),
+        position,
+        total: matches.length,
+        queryState: null,
+      },
+      emails: {
+        accountId: cache.accountId,
+        state: cache.emailState,
+        list,
+        notFound: [],
+      },
+      source: 'offline',
     };
   }
 
-  async sendEmail(emailData: {
-    to: string[];
-    subject: string;
-    textBody?: string;
-    htmlBody?: string;
-    cc?: string[];
-    bcc?: string[];
-    inReplyTo?: string;
-    references?: string[];
-  }): Promise<any> {
-    console.error('=== Starting sendEmail process ===');
-    console.error('Email data:', JSON.stringify(emailData, null, 2));
-
-    // Validate required fields
-    if (!emailData.to || emailData.to.length === 0) {
-      throw new Error('Recipients (to field) are required');
-    }
-    if (!emailData.subject) {
-      throw new Error('Subject is required');
+  async listAccounts(): Promise<any[]> {
+    if (!this.session) {
+      await this.getSession();
     }
-    if (!emailData.textBody && !emailData.htmlBody) {
-      throw new Error('Either textBody or htmlBody is required');
+
+    const { accounts, primaryAccounts, accountId: currentAccountId } = this.session!;
+    return Object.entries(accounts).map(([accountId, account]: [string, any]) => ({
+      id: accountId,
+      name: account.name,
+      isPersonal: account.isPersonal ?? null,
+      isReadOnly: account.isReadOnly ?? null,
+      capabilities: Object.keys(account.accountCapabilities || {}),
+      primaryFor: Object.keys(primaryAccounts).filter(urn => primaryAccounts[urn] === accountId),
+      isDefault: accountId === currentAccountId,
+    }));
+  }
+
+  private resolveAccountId(account: string): string {
+    const accounts = this.session!.accounts;
+    if (accounts[account]) {
+      return account;
     }
 
-    // Ensure mailboxes are loaded
-    if (this.mailboxCache.length === 0) {
-      console.error('Loading mailboxes...');
-      await this.getMailboxes();
+    const normalizedName = account.toLowerCase().trim();
+    const match = Object.entries(accounts).find(([, details]: [string, any]) =>
+      (details.name || '').toLowerCase() === normalizedName
+    );
+    if (!match) {
+      const available = Object.entries(accounts).map(([id, details]: [string, any]) => `${details.name} (${id})`);
+      throw new Error(`Account "${account}" not found. Available accounts: ${available.join(', ')}`);
     }
+    return match[0];
+  }
 
-    // Find the Drafts mailbox - try multiple strategies
-    let draftsMailboxId: string | null = null;
-    
-    // Strategy 1: Look for role-based drafts
-    for (const mailbox of this.mailboxCache) {
-      if (mailbox.role === 'drafts') {
-        draftsMailboxId = mailbox.id;
-        console.error(`Found drafts mailbox by role: ${mailbox.name} (${mailbox.id})`);
-        break;
-      }
+  // A client for another account in the same session (by ID or name), sharing
+  // authentication but keeping its own mailbox, identity and email caches
+  async forAccount(account?: string): Promise<JmapJMAPClient> {
+    if (!account) {
+      return this;
     }
-    
-    // Strategy 2: Look for name-based drafts
-    if (!draftsMailboxId) {
-      for (const mailbox of this.mailboxCache) {
-        if (mailbox.name && mailbox.name.toLowerCase().includes('draft')) {
-          draftsMailboxId = mailbox.id;
-          console.error(`Found drafts mailbox by name: ${mailbox.name} (${mailbox.id})`);
-          break;
-        }
-      }
+    if (!this.session) {
+      await this.getSession();
     }
 
-    // Strategy 3: Use first writable mailbox
-    if (!draftsMailboxId && this.mailboxCache.length > 0) {
-      // Look for inbox or any writable mailbox
-      const writableMailbox = this.mailboxCache.find(mb => 
-        mb.role === 'inbox' || 
-        (!mb.isReadOnly && mb.myRights && (mb.myRights.mayAddItems || mb.myRights.mayCreateChild))
-      );
-      if (writableMailbox) {
-        draftsMailboxId = writableMailbox.id;
-        console.error(`Using writable mailbox: ${writableMailbox.name} (${writableMailbox.id})`);
-      } else {
-        // Last resort: use first mailbox
-        draftsMailboxId = this.mailboxCache[0].id;
-        console.error(`Using first available mailbox: ${this.mailboxCache[0].name} (${this.mailboxCache[0].id})`);
-      }
+    const accountId = this.resolveAccountId(account);
+    if (accountId === this.session!.accountId) {
+      return this;
     }
 
-    if (!draftsMailboxId) {
-      throw new Error('No suitable mailbox found for creating draft email');
+    let client = this.accountClients.get(accountId);
+    if (!client) {
+      client = new JmapJMAPClient({ ...this.config, accountId });
+      client.authToken = this.authToken;
+      client.oauth = this.oauth;
+      client.session = {
+        ...this.session!,
+        accountId,
+        accountCapabilities: this.session!.accounts[accountId]?.accountCapabilities || {},
+      };
+      this.accountClients.set(accountId, client);
     }
+    return client;
+  }
 
-    // Prepare sender information - use authenticated username as full email
-    // If username doesn't contain @, assume it needs domain from baseUrl
-    let fromEmail = this.config.username;
-    if (!fromEmail.includes('@')) {
-      // Extract domain from baseUrl
-      const url = new URL(this.config.baseUrl);
-      const domain = url.hostname.replace(/^mail\./, ''); // Remove 'mail.' prefix if present
-      fromEmail = `${this.config.username}@${domain}`;
+  // Whether the account supports a capability; assumed true until the session says otherwise
+  supportsCapability(urn: string): boolean {
+    if (!this.session) {
+      return true;
     }
-    console.error(`Using sender email: ${fromEmail}`);
 
-    // Build the email object with proper JMAP structure
-    const email: any = {
-      from: [{ email: fromEmail }],
-      to: emailData.to.map(email => ({ email: email.trim() })),
-      subject: emailData.subject,
-      keywords: { '$draft': true },
-      mailboxIds: { [draftsMailboxId]: true }
-    };
+    const advertised = Object.keys(this.session.accountCapabilities).length > 0
+      ? this.session.accountCapabilities
+      : this.session.capabilities;
+    return Object.keys(advertised).length === 0 || urn in advertised;
+  }
 
-    // Add optional recipients
-    if (emailData.cc && emailData.cc.length > 0) {
-      email.cc = emailData.cc.map(email => ({ email: email.trim() }));
+  async getServerInfo(): Promise<any> {
+    if (!this.session) {
+      await this.getSession();
     }
 
-    if (emailData.bcc && emailData.bcc.length > 0) {
-      email.bcc = emailData.bcc.map(email => ({ email: email.trim() }));
-    }
+    const session = this.session!;
+    const mail = session.accountCapabilities[JMAP_MAIL] || {};
+    const submission = session.accountCapabilities[JMAP_SUBMISSION] || {};
 
-    // Add reply references
-    if (emailData.inReplyTo) {
-      email.inReplyTo = emailData.inReplyTo;
+    return {
+      baseUrl: this.config.baseUrl,
+      apiUrl: session.apiUrl,
+      accountId: session.accountId,
+      features: {
+        mail: this.supportsCapability(JMAP_MAIL),
+        submission: this.supportsCapability(JMAP_SUBMISSION),
+        calendars: this.supportsCapability(JMAP_CALENDARS),
+        contacts: this.supportsCapability(JMAP_CONTACTS),
+        push: Boolean(session.eventSourceUrl),
+      },
+      capabilities: Object.keys(session.capabilities),
+      accountCapabilities: Object.keys(session.accountCapabilities),
+      limits: session.limits,
+      mail: {
+        maxMailboxesPerEmail: mail.maxMailboxesPerEmail ?? null,
+        maxMailboxDepth: mail.maxMailboxDepth ?? null,
+        maxSizeMailboxName: mail.maxSizeMailboxName ?? null,
+        maxSizeAttachmentsPerEmail: mail.maxSizeAttachmentsPerEmail ?? null,
+        emailQuerySortOptions: mail.emailQuerySortOptions || [],
+        mayCreateTopLevelMailbox: mail.mayCreateTopLevelMailbox ?? null,
+      },
+      submission: {
+        maxDelayedSend: submission.maxDelayedSend ?? null,
+        submissionExtensions: submission.submissionExtensions || {},
+      },
+    };
+  }
+
+  private mailboxCache: any[] = [];
+  private identityCache: any[] = [];
+  private mailboxCacheSyncedAt = 0;
+  private mailboxCacheStale = false;
+  private typeStates: { [type: string]: string } = {};        // State each cache was last synced to
+  private changeCheckpoints: { [type: string]: string } = {};  // State of the last get_changes_since call
+  private pushAbort: AbortController | null = null;
+  private pushState: { [type: string]: string } = {};
+  private emailCache: EmailCacheData | null = null;
+  private emailCachePath: string | null = null;
+  private accountClients: Map<string, JmapJMAPClient> = new Map();
+
+  private async jmapRequest(methodCalls: any[]): Promise<any> {
+    if (!this.session) {
+      await this.getSession();
     }
-    if (emailData.references && emailData.references.length > 0) {
-      email.references = emailData.references;
+
+    // Only declare the capabilities these calls need, and fail early on unsupported ones
+    const using = new Set<string>([JMAP_CORE]);
+    for (const [method] of methodCalls) {
+      for (const urn of METHOD_CAPABILITIES[method.split('/')[0]] || []) {
+        if (!this.supportsCapability(urn)) {
+          throw new Error(`The server does not support ${urn}, which ${method} requires`);
+        }
+        using.add(urn);
+      }
     }
 
-    // Handle body content with improved structure
-    // Note: Jmap doesn't allow charset in bodyStructure when partId is specified
-    if (emailData.htmlBody && emailData.textBody) {
-      // Multipart: both HTML and text
-      email.bodyStructure = {
-        type: 'multipart/alternative',
-        subParts: [
-          {
-            partId: '1',
-            type: 'text/plain'
-          },
-          {
-            partId: '2', 
-            type: 'text/html'
+    console.error(`Making JMAP request to: ${this.session!.apiUrl}`);
+    console.error(`Method calls:`, JSON.stringify(methodCalls, null, 2));
+
+    const response = await this.fetchWithAuth(this.session!.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        using: [...using],
+        methodCalls,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`JMAP request failed: ${response.status} ${response.statusText}`);
+      console.error(`Response body: ${errorText}`);
+      throw new Error(`JMAP request failed: ${response.status} ${response.statusText}. Response: ${errorText}`);
+    }
+
+    const data = await response.json() as any;
+    console.error('JMAP response:', JSON.stringify(data, null, 2));
+    return data;
+  }
+
+  // Listen for StateChange events on the JMAP EventSource (RFC 8620 section 7.3),
+  // reconnecting with exponential backoff until stopPushListener is called
+  startPushListener(onChange: (changed: { [type: string]: string }) => void): void {
+    if (this.pushAbort) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.pushAbort = controller;
+
+    const run = async () => {
+      let attempt = 0;
+      while (!controller.signal.aborted) {
+        try {
+          await this.readEventSource(controller.signal, onChange, () => { attempt = 0; });
+        } catch (error) {
+          if (controller.signal.aborted) {
+            break;
           }
-        ]
-      };
-      email.bodyValues = {
-        '1': { 
-          value: emailData.textBody
-        },
-        '2': { 
-          value: emailData.htmlBody
-        }
-      };
-    } else if (emailData.htmlBody) {
-      // HTML only
-      email.bodyStructure = {
-        type: 'text/html',
-        partId: '1'
-      };
-      email.bodyValues = {
-        '1': { 
-          value: emailData.htmlBody
+          console.error(`EventSource error: ${error instanceof Error ? error.message : String(error)}`);
         }
-      };
-    } else {
-      // Text only (default)
-      email.bodyStructure = {
-        type: 'text/plain',
-        partId: '1'
-      };
-      email.bodyValues = {
-        '1': { 
-          value: emailData.textBody || ''
+
+        if (controller.signal.aborted) {
+          break;
         }
-      };
+        const delay = Math.min(PUSH_MAX_BACKOFF_MS, 1000 * 2 ** attempt);
+        attempt++;
+        console.error(`EventSource disconnected, reconnecting in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    };
+
+    run();
+  }
+
+  stopPushListener(): void {
+    this.pushAbort?.abort();
+    this.pushAbort = null;
+  }
+
+  private async readEventSource(
+    stopSignal: AbortSignal,
+    onChange: (changed: { [type: string]: string }) => void,
+    onOpen: () => void
+  ): Promise<void> {
+    if (!this.session) {
+      await this.getSession();
+    }
+    if (!this.session!.eventSourceUrl) {
+      throw new Error('Server does not advertise an EventSource URL');
     }
 
-    console.error('Creating email with structure:', JSON.stringify(email, null, 2));
+    const url = this.session!.eventSourceUrl
+      .replace('{types}', '*')
+      .replace('{closeafter}', 'no')
+      .replace('{ping}', String(PUSH_PING_SECONDS));
+
+    // Abort this connection when the listener stops or the server goes quiet
+    const connection = new AbortController();
+    const abort = () => connection.abort();
+    stopSignal.addEventListener('abort', abort);
+    let watchdog: NodeJS.Timeout | undefined;
+    const resetWatchdog = () => {
+      clearTimeout(watchdog);
+      watchdog = setTimeout(abort, PUSH_PING_SECONDS * 3 * 1000);
+    };
 
     try {
-      // Step 1: Create the draft
-      console.error('=== Step 1: Creating draft ===');
-      const createResponse = await this.jmapRequest([
-        ['Email/set', {
-          accountId: this.session?.accountId,
-          create: {
-            'draft': email
-          }
-        }, 'createDraft']
-      ]);
+      const response = await this.fetchWithAuth(url, {
+        method: 'GET',
+        headers: {
+          'Accept': 'text/event-stream',
+        },
+        signal: connection.signal,
+      });
 
-      console.error('Create draft response:', JSON.stringify(createResponse, null, 2));
+      if (!response.ok || !response.body) {
+        throw new Error(`EventSource request failed: ${response.status} ${response.statusText}`);
+      }
 
-      const createResult = createResponse.methodResponses[0][1];
-      
-      // Check for creation errors
-      if (createResult.notCreated && createResult.notCreated.draft) {
-        const error = createResult.notCreated.draft;
-        console.error('Draft creation failed:', error);
-        throw new Error(`Failed to create draft: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
+      console.error(`Connected to JMAP EventSource at ${url}`);
+      onOpen();
+      resetWatchdog();
+
+      // Decode as a stream so multi-byte characters split across chunks survive
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.body) {
+        resetWatchdog();
+        buffer += decoder.decode(chunk as Buffer, { stream: true });
+
+        // Events are separated by a blank line; keep any trailing partial event
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        for (const event of events) {
+          this.handlePushEvent(event, onChange);
+        }
       }
+    } finally {
+      clearTimeout(watchdog);
+      stopSignal.removeEventListener('abort', abort);
+    }
+  }
 
-      if (!createResult.created || !createResult.created.draft) {
-        console.error('No draft created in response:', createResult);
-        throw new Error('Draft creation failed - no created object returned');
+  private handlePushEvent(rawEvent: string, onChange: (changed: { [type: string]: string }) => void): void {
+    const dataLines: string[] = [];
+    for (const line of rawEvent.split(/\r?\n/)) {
+      if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
       }
+    }
+    if (dataLines.length === 0) {
+      return;
+    }
 
-      const draftId = createResult.created.draft.id;
-      console.error(`✅ Created draft with ID: ${draftId}`);
+    let stateChange: any;
+    try {
+      stateChange = JSON.parse(dataLines.join('\n'));
+    } catch (error) {
+      console.error(`Ignoring malformed EventSource data: ${dataLines.join('\n')}`);
+      return;
+    }
+    if (stateChange['@type'] !== 'StateChange') {
+      return;
+    }
 
-      // Step 2: Submit for sending
-      console.error('=== Step 2: Submitting email for sending ===');
-      
-      // Build submission envelope with correct sender
-      const envelope = {
-        mailFrom: { email: fromEmail },
-        rcptTo: [
-          ...emailData.to.map(email => ({ email: email.trim() })),
-          ...(emailData.cc || []).map(email => ({ email: email.trim() })),
-          ...(emailData.bcc || []).map(email => ({ email: email.trim() }))
-        ]
-      };
-      
-      // Validate that all email addresses contain @ symbol
-      const allEmails = [fromEmail, ...emailData.to, ...(emailData.cc || []), ...(emailData.bcc || [])];
-      for (const email of allEmails) {
-        if (!email.includes('@')) {
-          throw new Error(`Invalid email address: "${email}". Email addresses must be in the format user@domain.com`);
-        }
+    // Only report types whose state actually moved for our account
+    const accountChanges = stateChange.changed?.[this.session!.accountId] || {};
+    const changed: { [type: string]: string } = {};
+    for (const [type, state] of Object.entries(accountChanges) as [string, string][]) {
+      if (this.pushState[type] !== state) {
+        this.pushState[type] = state;
+        changed[type] = state;
       }
-      
-      console.error('Submission envelope:', JSON.stringify(envelope, null, 2));
-      
-      const submitResponse = await this.jmapRequest([
-        ['EmailSubmission/set', {
-          accountId: this.session?.accountId,
-          create: {
-            'send': {
-              emailId: draftId,
-              identityId: this.session?.accountId, // Use accountId as identityId
-              envelope
-            }
-          }
-        }, 'submitEmail']
-      ]);
+    }
 
-      console.error('Submit email response:', JSON.stringify(submitResponse, null, 2));
+    if (changed.Mailbox) {
+      this.mailboxCacheStale = true;
+    }
+    if (Object.keys(changed).length > 0) {
+      console.error(`JMAP state changed: ${JSON.stringify(changed)}`);
+      onChange(changed);
+    }
+  }
 
-      const submitResult = submitResponse.methodResponses[0][1];
-      
-      // Check for submission errors
-      if (submitResult.notCreated && submitResult.notCreated.send) {
-        const error = submitResult.notCreated.send;
-        console.error('Email submission failed:', error);
-        throw new Error(`Failed to send email: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
-      }
+  private async uploadBlob(data: Buffer, type: string): Promise<any> {
+    if (!this.session) {
+      await this.getSession();
+    }
+
+    if (data.length > this.session!.limits.maxSizeUpload) {
+      throw new Error(`Upload of ${data.length} bytes exceeds the server limit of ${this.session!.limits.maxSizeUpload} bytes`);
+    }
+
+    // uploadUrl is an RFC 6570 template, e.g. https://host/upload/{accountId}/
+    const uploadUrl = this.session!.uploadUrl.replace('{accountId}', encodeURIComponent(this.session!.accountId));
+    console.error(`Uploading ${data.length} bytes (${type}) to: ${uploadUrl}`);
+
+    const response = await this.fetchWithAuth(uploadUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': type,
+      },
+      body: data,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Upload failed: ${response.status} ${response.statusText}`);
+      console.error(`Response body: ${errorText}`);
+      throw new Error(`Upload failed: ${response.status} ${response.statusText}. Response: ${errorText}`);
+    }
+
+    const result = await response.json() as any;
+    console.error('Upload response:', JSON.stringify(result, null, 2));
+    return result;
+  }
+
+  private async downloadBlob(blobId: string, name: string, type: string): Promise<any> {
+    if (!this.session) {
+      await this.getSession();
+    }
+
+    // downloadUrl is an RFC 6570 template with {accountId}, {blobId}, {name} and {type}
+    const downloadUrl = this.session!.downloadUrl
+      .replace('{accountId}', encodeURIComponent(this.session!.accountId))
+      .replace('{blobId}', encodeURIComponent(blobId))
+      .replace('{name}', encodeURIComponent(name))
+      .replace('{type}', encodeURIComponent(type));
+    console.error(`Downloading blob from: ${downloadUrl}`);
+
+    const response = await this.fetchWithAuth(downloadUrl, {
+      method: 'GET',
+      headers: {
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Download failed: ${response.status} ${response.statusText}`);
+      console.error(`Response body: ${errorText}`);
+      throw new Error(`Download failed: ${response.status} ${response.statusText}. Response: ${errorText}`);
+    }
 
-      if (!submitResult.created || !submitResult.created.send) {
-        console.error('No submission created in response:', submitResult);
-        throw new Error('Email submission failed - no submission object returned');
+    return response;
+  }
+
+  private async uploadAttachments(attachments: EmailAttachment[]): Promise<any[]> {
+    const parts: any[] = [];
+
+    for (const attachment of attachments) {
+      // Existing blobs can be referenced directly without re-uploading
+      if (attachment.blobId) {
+        parts.push({
+          blobId: attachment.blobId,
+          type: attachment.type || guessMimeType(attachment.name || ''),
+          name: attachment.name,
+          disposition: 'attachment',
+        });
+        continue;
       }
 
-      console.error('✅ Email sent successfully!');
-      
-      return {
-        success: true,
-        emailId: draftId,
-        submissionId: submitResult.created.send.id,
-        createResponse: createResult,
-        submitResponse: submitResult,
-        message: `Email sent successfully to ${emailData.to.join(', ')}`
-      };
-      
-    } catch (error) {
-      console.error('❌ Error in sendEmail process:', error);
-      
-      // Provide more helpful error messages
-      if (error instanceof Error) {
-        if (error.message.includes('not found') || error.message.includes('404')) {
-          throw new Error('Email service endpoint not found. Please check your JMAP server configuration.');
-        }
-        if (error.message.includes('unauthorized') || error.message.includes('401')) {
-          throw new Error('Authentication failed. Please check your credentials.');
+      let data: Buffer;
+      let name = attachment.name;
+
+      if (attachment.path) {
+        const filePath = resolve(attachment.path);
+        if (!existsSync(filePath)) {
+          throw new Error(`Attachment file not found: ${attachment.path}`);
         }
-        if (error.message.includes('forbidden') || error.message.includes('403')) {
-          throw new Error('Insufficient permissions to send email. Please check your account permissions.');
+        data = readFileSync(filePath);
+        name = name || basename(filePath);
+      } else if (attachment.content !== undefined) {
+        if (!name) {
+          throw new Error('Attachment name is required when providing base64 content');
         }
+        data = Buffer.from(attachment.content, 'base64');
+      } else {
+        throw new Error('Each attachment needs either a path or base64 content');
       }
-      
-      throw error;
+
+      const type = attachment.type || guessMimeType(name);
+      const uploaded = await this.uploadBlob(data, type);
+
+      parts.push({
+        blobId: uploaded.blobId,
+        type,
+        name,
+        disposition: 'attachment',
+      });
     }
-  }
 
-  async markAsRead(emailIds: string[]): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Email/set', {
-        accountId: this.session?.accountId,
-        update: Object.fromEntries(
-          emailIds.map(id => [id, { 'keywords/$seen': true }])
-        )
-      }, 'markRead']
-    ]);
+    return parts;
+  }
 
-    return response.methodResponses[0][1];
+  private getSenderEmail(): string {
+    // Prepare sender information - use authenticated username as full email
+    // If username doesn't contain @, assume it needs domain from baseUrl
+    let fromEmail = [this.session?.username, this.config.username].find(name => name?.includes('@'))
+      || this.config.username || this.session?.username || '';
+    if (!fromEmail.includes('@')) {
+      // Extract domain from baseUrl
+      const url = new URL(this.config.baseUrl);
+      const domain = url.hostname.replace(/^mail\./, ''); // Remove 'mail.' prefix if present
+      fromEmail = `${fromEmail}@${domain}`;
+    }
+    return fromEmail;
   }
 
-  async markAsUnread(emailIds: string[]): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Email/set', {
-        accountId: this.session?.accountId,
-        update: Object.fromEntries(
-          emailIds.map(id => [id, { 'keywords/$seen': null }])
-        )
-      }, 'markUnread']
-    ]);
+  // Addresses that belong to us, excluded from reply-all recipients
+  private async getOwnAddresses(): Promise<string[]> {
+    if (this.identityCache.length === 0) {
+      await this.getIdentities();
+    }
 
-    return response.methodResponses[0][1];
+    const addresses = this.identityCache
+      .map(identity => identity.email?.toLowerCase())
+      .filter((email: string | undefined) => email && !email.includes('*'));
+    return Array.from(new Set([this.getSenderEmail().toLowerCase(), ...addresses]));
   }
 
-  async deleteEmails(emailIds: string[]): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Email/set', {
-        accountId: this.session?.accountId,
-        update: Object.fromEntries(
-          emailIds.map(id => [id, { 'keywords/$deleted': true }])
-        )
-      }, 'delete']
-    ]);
+  private identityMatches(identity: any, email: string): boolean {
+    const identityEmail = (identity.email || '').toLowerCase();
+    const normalizedEmail = email.toLowerCase().trim();
 
-    return response.methodResponses[0][1];
+    // Wildcard identities (e.g. "*@example.com") may send as any address in the domain
+    if (identityEmail.startsWith('*@')) {
+      return normalizedEmail.endsWith(identityEmail.substring(1));
+    }
+    return identityEmail === normalizedEmail;
   }
 
-  // Calendar methods
-  async getCalendars(): Promise<any> {
-    const response = await this.jmapRequest([
-      ['Calendar/get', {
-        accountId: this.session!.accountId,
-      }, 'a']
-    ]);
+  private async resolveIdentity(fromIdentity?: string): Promise<{ id: string; name: string; email: string; replyTo: any[] | null }> {
+    if (this.identityCache.length === 0) {
+      await this.getIdentities();
+    }
 
-    return response.methodResponses[0][1];
-  }
+    if (this.identityCache.length === 0) {
+      throw new Error('No sending identities available for this account');
+    }
 
-  async getCalendarEvents(calendarId?: string, limit: number = 50): Promise<any> {
-    const filter: any = {};
-    if (calendarId) {
-      filter.inCalendar = calendarId;
+    let identity: any;
+    let email: string | undefined;
+
+    if (fromIdentity) {
+      // Match by identity ID first, then by exact email, then by wildcard identity
+      identity = this.identityCache.find(id => id.id === fromIdentity)
+        || this.identityCache.find(id => !id.email?.startsWith('*@') && this.identityMatches(id, fromIdentity))
+        || this.identityCache.find(id => this.identityMatches(id, fromIdentity));
+      if (!identity) {
+        throw new Error(`Identity "${fromIdentity}" not found. Available identities: ${this.identityCache.map(id => `${id.email} (${id.id})`).join(', ')}`);
+      }
+      email = identity.id === fromIdentity ? identity.email : fromIdentity.trim();
+    } else {
+      // Default to the identity for the session's login address, then the first non-wildcard identity
+      const userEmail = [this.session?.username, this.config.username].find(name => name?.includes('@'));
+      if (userEmail) {
+        identity = this.identityCache.find(id => !id.email?.startsWith('*@') && this.identityMatches(id, userEmail))
+          || this.identityCache.find(id => this.identityMatches(id, userEmail));
+        email = identity ? userEmail : undefined;
+      }
+
+      if (!identity) {
+        identity = this.identityCache.find(id => !id.email?.startsWith('*@')) || this.identityCache[0];
+        email = identity.email;
+        console.error(`No identity matches ${userEmail || 'the login name'}, using ${identity.email} (${identity.id})`);
+      }
     }
 
-    const response = await this.jmapRequest([
-      ['CalendarEvent/query', {
-        accountId: this.session!.accountId,
-        filter,
-        limit,
-        sort: [{ property: 'start', isAscending: false }],
-      }, 'a'],
-      ['CalendarEvent/get', {
-        accountId: this.session!.accountId,
-        '#ids': {
-          resultOf: 'a',
-          name: 'CalendarEvent/query',
-          path: '/ids',
-        },
-        properties: ['id', 'title', 'description', 'start', 'end', 'calendarId', 'location', 'participants', 'status', 'showWithoutTime'],
-      }, 'b']
-    ]);
+    if (!email || email.startsWith('*@')) {
+      throw new Error(`Identity "${identity.email}" is a wildcard identity. Pass the exact address to send from as fromIdentity`);
+    }
 
     return {
-      queryResult: response.methodResponses[0][1],
-      eventsResult: response.methodResponses[1][1]
+      id: identity.id,
+      name: identity.name || '',
+      email,
+      replyTo: identity.replyTo || null,
     };
   }
 
-  async createCalendarEvent(eventData: {
-    calendarId: string;
-    title: string;
-    description?: string;
-    start: string;
-    end: string;
-    location?: string;
-    participants?: string[];
-    showWithoutTime?: boolean;
-  }): Promise<any> {
-    const event = {
-      calendarId: eventData.calendarId,
-      title: eventData.title,
-      description: eventData.description || '',
-      start: eventData.start,
-      end: eventData.end,
-      location: eventData.location || '',
-      showWithoutTime: eventData.showWithoutTime || false,
-      participants: eventData.participants ? eventData.participants.map(email => ({
-        email,
-        role: 'attendee',
-        participationStatus: 'needs-action',
-      })) : [],
-    };
+  private getEmailText(email: any): string {
+    const values = email.bodyValues || {};
 
-    const response = await this.jmapRequest([
-      ['CalendarEvent/set', {
-        accountId: this.session!.accountId,
-        create: {
-          tempId: event,
+    const textParts = (email.textBody || [])
+      .map((part: any) => values[part.partId]?.value)
+      .filter((value: any) => typeof value === 'string');
+    if (textParts.length > 0) {
+      return textParts.join('\n');
+    }
+
+    // Fall back to the HTML body with markup stripped
+    const htmlParts = (email.htmlBody || [])
+      .map((part: any) => values[part.partId]?.value)
+      .filter((value: any) => typeof value === 'string');
+    if (htmlParts.length > 0) {
+      return htmlParts.join('\n')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/p>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+    }
+
+    return email.preview || '';
+  }
+
+  private buildEmailBody(textBody?: string, htmlBody?: string, attachmentParts: any[] = []): { bodyStructure: any; bodyValues: any } {
+    let bodyStructure: any;
+    let bodyValues: any;
+
+    // Note: Jmap doesn't allow charset in bodyStructure when partId is specified
+    if (htmlBody && textBody) {
+      // Multipart: both HTML and text
+      bodyStructure = {
+        type: 'multipart/alternative',
+        subParts: [
+          {
+            partId: '1',
+            type: 'text/plain'
+          },
+          {
+            partId: '2',
+            type: 'text/html'
+          }
+        ]
+      };
+      bodyValues = {
+        '1': {
+          value: textBody
         },
-      }, 'a']
-    ]);
+        '2': {
+          value: htmlBody
+        }
+      };
+    } else if (htmlBody) {
+      // HTML only
+      bodyStructure = {
+        type: 'text/html',
+        partId: '1'
+      };
+      bodyValues = {
+        '1': {
+          value: htmlBody
+        }
+      };
+    } else {
+      // Text only (default)
+      bodyStructure = {
+        type: 'text/plain',
+        partId: '1'
+      };
+      bodyValues = {
+        '1': {
+          value: textBody || ''
+        }
+      };
+    }
 
-    return response.methodResponses[0][1];
+    // Attachments wrap the message body in multipart/mixed
+    if (attachmentParts.length > 0) {
+      bodyStructure = {
+        type: 'multipart/mixed',
+        subParts: [bodyStructure, ...attachmentParts]
+      };
+    }
+
+    return { bodyStructure, bodyValues };
   }
 
-  async updateCalendarEvent(eventId: string, updates: {
-    title?: string;
-    description?: string;
-    start?: string;
-    end?: string;
-    location?: string;
-    participants?: string[];
-  }): Promise<any> {
-    const updateData: any = {};
-    if (updates.title !== undefined) updateData.title = updates.title;
-    if (updates.description !== undefined) updateData.description = updates.description;
-    if (updates.start !== undefined) updateData.start = updates.start;
-    if (updates.end !== undefined) updateData.end = updates.end;
-    if (updates.location !== undefined) updateData.location = updates.location;
-    if (updates.participants !== undefined) {
-      updateData.participants = updates.participants.map(email => ({
-        email,
-        role: 'attendee',
-        participationStatus: 'needs-action',
-      }));
+  private async findMailboxByName(mailboxName: string): Promise<string | null> {
+    await this.ensureMailboxCache();
+
+    const normalizedName = mailboxName.toLowerCase().trim();
+    
+    // Try exact match first
+    let mailbox = this.mailboxCache.find(mb => 
+      mb.name.toLowerCase() === normalizedName
+    );
+    
+    // Try partial match
+    if (!mailbox) {
+      mailbox = this.mailboxCache.find(mb => 
+        mb.name.toLowerCase().includes(normalizedName)
+      );
+    }
+    
+    // Try role-based matching for common mailbox types
+    if (!mailbox) {
+      const roleMap: { [key: string]: string } = {
+        'inbox': 'inbox',
+        'sent': 'sent',
+        'draft': 'drafts',
+        'drafts': 'drafts',
+        'trash': 'trash',
+        'deleted': 'trash',
+        'spam': 'junk',
+        'junk': 'junk',
+        'archive': 'archive',
+        'outbox': 'outbox'
+      };
+      
+      const role = roleMap[normalizedName];
+      if (role) {
+        mailbox = this.mailboxCache.find(mb => mb.role === role);
+      }
+    }
+    
+    return mailbox ? mailbox.id : null;
+  }
+
+  // Load the mailbox cache, or bring it up to date with Mailbox/changes once it may be stale
+  private async ensureMailboxCache(): Promise<void> {
+    try {
+      if (this.mailboxCache.length === 0 || !this.typeStates.Mailbox) {
+        await this.getMailboxes();
+        return;
+      }
+
+      if (this.mailboxCacheStale || Date.now() - this.mailboxCacheSyncedAt > MAILBOX_CACHE_TTL_MS) {
+        await this.syncMailboxCache();
+      }
+    } catch (error) {
+      // Offline: keep resolving names against the last known mailboxes
+      const knownMailboxes = this.mailboxCache.length > 0 ? this.mailboxCache : this.emailCache?.mailboxes || [];
+      if (!isNetworkError(error) || knownMailboxes.length === 0) {
+        throw error;
+      }
+      console.error('Server unreachable, using cached mailboxes');
+      this.mailboxCache = knownMailboxes;
+    }
+  }
+
+  private async syncMailboxCache(): Promise<void> {
+    const changes = await this.getChanges('Mailbox', this.typeStates.Mailbox);
+    if (changes.cannotCalculateChanges) {
+      await this.getMailboxes();
+      return;
+    }
+
+    const changedIds = [...changes.created, ...changes.updated];
+    let changedMailboxes: any[] = [];
+    if (changedIds.length > 0) {
+      changedMailboxes = (await this.getInBatches('Mailbox', changedIds)).list;
     }
 
+    const replacedIds = new Set([...changedIds, ...changes.destroyed]);
+    this.mailboxCache = [
+      ...this.mailboxCache.filter(mb => !replacedIds.has(mb.id)),
+      ...changedMailboxes,
+    ];
+    this.typeStates.Mailbox = changes.newState;
+    this.mailboxCacheSyncedAt = Date.now();
+    this.mailboxCacheStale = false;
+    if (this.emailCache) {
+      this.emailCache.mailboxes = this.mailboxCache;
+    }
+  }
+
+  private async findMailboxByRole(role: string): Promise<any | null> {
+    await this.ensureMailboxCache();
+
+    return this.mailboxCache.find(mb => mb.role === role) || null;
+  }
+
+  // Turn an Email/set response into per-id success and failure lists
+  private summarizeSetResult(emailIds: string[], result: any, operation: 'updated' | 'destroyed' = 'updated'): any {
+    const succeededIds = operation === 'updated'
+      ? Object.keys(result?.updated || {})
+      : (result?.destroyed || []);
+    const failures = operation === 'updated' ? result?.notUpdated || {} : result?.notDestroyed || {};
+
+    return {
+      succeeded: emailIds.filter(id => succeededIds.includes(id)),
+      failed: emailIds
+        .filter(id => !succeededIds.includes(id))
+        .map(id => ({
+          id,
+          type: failures[id]?.type || 'unknown',
+          description: failures[id]?.description || null,
+        })),
+    };
+  }
+
+  async getMailboxes(): Promise<any> {
     const response = await this.jmapRequest([
-      ['CalendarEvent/set', {
-        accountId: this.session!.accountId,
-        update: {
-          [eventId]: updateData,
-        },
-      }, 'a']
+      ['Mailbox/get', {
+        accountId: this.session?.accountId,
+        ids: null,
+      }, 'mailboxes'],
     ]);
 
-    return response.methodResponses[0][1];
+    const result = response.methodResponses[0][1];
+    
+    // Update mailbox cache for name resolution
+    this.mailboxCache = result.list || [];
+    this.typeStates.Mailbox = result.state;
+    this.mailboxCacheSyncedAt = Date.now();
+    this.mailboxCacheStale = false;
+    if (this.emailCache) {
+      this.emailCache.mailboxes = this.mailboxCache;
+      this.saveEmailCache();
+    }
+    
+    return result;
   }
 
-  async deleteCalendarEvent(eventId: string): Promise<any> {
+  // Check a Mailbox/set response and clear the cache so names resolve freshly
+  private checkMailboxSet(methodResponse: any[], action: string, mailboxId: string): any {
+    const [name, result] = methodResponse;
+    if (name === 'error') {
+      throw new Error(`Failed to ${action} mailbox: ${result.type}${result.description ? ` - ${result.description}` : ''}`);
+    }
+
+    const failures = result.notCreated || result.notUpdated || result.notDestroyed || {};
+    const error = failures[mailboxId];
+    if (error) {
+      throw new Error(`Failed to ${action} mailbox: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
+    }
+
+    this.mailboxCacheStale = true;
+    return result;
+  }
+
+  private async resolveParentMailboxId(parent?: string | null): Promise<string | null> {
+    if (!parent || parent.toLowerCase() === 'root') {
+      return null;
+    }
+    return this.resolveMailboxId(parent);
+  }
+
+  async createMailbox(name: string, parent?: string | null): Promise<any> {
+    const parentId = await this.resolveParentMailboxId(parent);
+
     const response = await this.jmapRequest([
-      ['CalendarEvent/set', {
-        accountId: this.session!.accountId,
-        destroy: [eventId],
-      }, 'a']
+      ['Mailbox/set', {
+        accountId: this.session?.accountId,
+        create: {
+          'mailbox': { name, parentId }
+        }
+      }, 'createMailbox']
     ]);
 
-    return response.methodResponses[0][1];
+    const result = this.checkMailboxSet(response.methodResponses[0], 'create', 'mailbox');
+
+    return {
+      success: true,
+      id: result.created?.mailbox?.id,
+      name,
+      parentId,
+    };
   }
 
-  // Contact methods
-  async getAddressBooks(): Promise<any> {
+  async renameMailbox(mailbox: string, newName: string): Promise<any> {
+    const mailboxId = await this.resolveExactMailboxId(mailbox, 'rename');
+    const previousName = this.mailboxCache.find(mb => mb.id === mailboxId)?.name;
+
     const response = await this.jmapRequest([
-      ['AddressBook/get', {
-        accountId: this.session!.accountId,
-      }, 'a']
+      ['Mailbox/set', {
+        accountId: this.session?.accountId,
+        update: {
+          [mailboxId]: { name: newName }
+        }
+      }, 'renameMailbox']
     ]);
 
-    return response.methodResponses[0][1];
+    this.checkMailboxSet(response.methodResponses[0], 'rename', mailboxId);
+
+    return {
+      success: true,
+      id: mailboxId,
+      previousName,
+      name: newName,
+    };
   }
 
-  async getContacts(addressBookId?: string, limit: number = 50): Promise<any> {
-    const filter: any = {};
-    if (addressBookId) {
-      filter.inAddressBook = addressBookId;
+  async moveMailbox(mailbox: string, parent?: string | null): Promise<any> {
+    const mailboxId = await this.resolveExactMailboxId(mailbox, 'move');
+    const parentId = await this.resolveParentMailboxId(parent);
+    if (parentId === mailboxId) {
+      throw new Error('A mailbox cannot be its own parent');
     }
 
     const response = await this.jmapRequest([
-      ['Contact/query', {
-        accountId: this.session!.accountId,
-        filter,
-        limit,
-        sort: [{ property: 'lastName', isAscending: true }],
-      }, 'a'],
-      ['Contact/get', {
-        accountId: this.session!.accountId,
-        '#ids': {
-          resultOf: 'a',
-          name: 'Contact/query',
-          path: '/ids',
-        },
-        properties: ['id', 'firstName', 'lastName', 'emails', 'phones', 'addresses', 'company', 'jobTitle', 'notes', 'addressBookId'],
-      }, 'b']
+      ['Mailbox/set', {
+        accountId: this.session?.accountId,
+        update: {
+          [mailboxId]: { parentId }
+        }
+      }, 'moveMailbox']
     ]);
 
+    this.checkMailboxSet(response.methodResponses[0], 'move', mailboxId);
+
     return {
-      queryResult: response.methodResponses[0][1],
-      contactsResult: response.methodResponses[1][1]
+      success: true,
+      id: mailboxId,
+      parentId,
     };
   }
 
-  async searchContacts(query: string, limit: number = 20): Promise<any> {
+  async deleteMailbox(mailbox: string, onDestroyRemoveEmails: boolean = false): Promise<any> {
+    const mailboxId = await this.resolveExactMailboxId(mailbox, 'delete');
+    const mailboxInfo = this.mailboxCache.find(mb => mb.id === mailboxId);
+
     const response = await this.jmapRequest([
-      ['Contact/query', {
-        accountId: this.session!.accountId,
-        filter: {
-          text: query,
-        },
-        limit,
-        sort: [{ property: 'lastName', isAscending: true }],
-      }, 'a'],
-      ['Contact/get', {
-        accountId: this.session!.accountId,
-        '#ids': {
-          resultOf: 'a',
-          name: 'Contact/query',
-          path: '/ids',
-        },
-        properties: ['id', 'firstName', 'lastName', 'emails', 'phones', 'addresses', 'company', 'jobTitle', 'notes', 'addressBookId'],
-      }, 'b']
+      ['Mailbox/set', {
+        accountId: this.session?.accountId,
+        destroy: [mailboxId],
+        onDestroyRemoveEmails,
+      }, 'deleteMailbox']
     ]);
 
+    this.checkMailboxSet(response.methodResponses[0], 'delete', mailboxId);
+
     return {
-      queryResult: response.methodResponses[0][1],
-      contactsResult: response.methodResponses[1][1]
+      success: true,
+      id: mailboxId,
+      name: mailboxInfo?.name,
+      emailsRemoved: onDestroyRemoveEmails,
     };
   }
 
-  async createContact(contactData: {
-    addressBookId: string;
-    firstName?: string;
-    lastName?: string;
-    emails?: { type: string; value: string }[];
-    phones?: { type: string; value: string }[];
-    addresses?: { type: string; street?: string; city?: string; state?: string; country?: string; postalCode?: string }[];
-    company?: string;
-    jobTitle?: string;
-    notes?: string;
-  }): Promise<any> {
-    const contact = {
-      addressBookId: contactData.addressBookId,
-      firstName: contactData.firstName || '',
-      lastName: contactData.lastName || '',
-      emails: contactData.emails || [],
-      phones: contactData.phones || [],
-      addresses: contactData.addresses || [],
-      company: contactData.company || '',
-      jobTitle: contactData.jobTitle || '',
-      notes: contactData.notes || '',
-    };
-
+  async getIdentities(): Promise<any> {
     const response = await this.jmapRequest([
-      ['Contact/set', {
-        accountId: this.session!.accountId,
-        create: {
-          tempId: contact,
-        },
-      }, 'a']
+      ['Identity/get', {
+        accountId: this.session?.accountId,
+        ids: null,
+      }, 'identities'],
     ]);
 
-    return response.methodResponses[0][1];
+    const result = response.methodResponses[0][1];
+
+    // Update identity cache for sender resolution
+    this.identityCache = result.list || [];
+
+    return result;
   }
 
-  async updateContact(contactId: string, updates: {
-    firstName?: string;
-    lastName?: string;
-    emails?: { type: string; value: string }[];
-    phones?: { type: string; value: string }[];
-    addresses?: { type: string; street?: string; city?: string; state?: string; country?: string; postalCode?: string }[];
-    company?: string;
-    jobTitle?: string;
-    notes?: string;
-  }): Promise<any> {
-    const updateData: any = {};
-    Object.keys(updates).forEach(key => {
-      if ((updates as any)[key] !== undefined) {
-        updateData[key] = (updates as any)[key];
+  async getEmails(mailboxId?: string, limit: number = 50, collapseThreads: boolean = false, page: PageCursor = {}): Promise<any> {
+    // If no mailboxId specified, get from all mailboxes
+    if (!mailboxId) {
+      const { query, emails, source } = await this.queryEmails(null, collapseThreads, limit, page, [
+        'id', 'subject', 'from', 'to', 'cc', 'bcc', 
+        'receivedAt', 'sentAt', 'hasAttachment', 'preview',
+        'keywords', 'size', 'mailboxIds', 'threadId'
+      ]);
+
+      return {
+        query,
+        emails,
+        pagination: paginationInfo(query, limit),
+        mailboxUsed: 'all',
+        source,
+      };
+    }
+
+    // If mailboxId looks like a name rather than ID, try to resolve it
+    let resolvedMailboxId: string | undefined = mailboxId;
+    if (mailboxId && !mailboxId.match(/^[a-z]$/)) {  // Changed from startsWith('M') to single letter check
+      const foundMailboxId = await this.findMailboxByName(mailboxId);
+      if (!foundMailboxId) {
+        throw new Error(`Mailbox "${mailboxId}" not found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
       }
-    });
+      resolvedMailboxId = foundMailboxId;
+    }
+    
+    const filter = resolvedMailboxId ? { inMailbox: resolvedMailboxId } : {};
+    
+    const { query, emails, source } = await this.queryEmails(filter, collapseThreads, limit, page, [
+      'id', 'subject', 'from', 'to', 'cc', 'bcc', 
+      'receivedAt', 'sentAt', 'hasAttachment', 'preview',
+      'keywords', 'size', 'mailboxIds', 'threadId'
+    ]);
+
+    return {
+      query,
+      emails,
+      pagination: paginationInfo(query, limit),
+      mailboxUsed: resolvedMailboxId,
+      source,
+    };
+  }
 
+  async getEmailById(emailId: string): Promise<any> {
     const response = await this.jmapRequest([
-      ['Contact/set', {
-        accountId: this.session!.accountId,
-        update: {
-          [contactId]: updateData,
-        },
-      }, 'a']
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        ids: [emailId],
+        properties: [
+          'id', 'subject', 'from', 'to', 'cc', 'bcc',
+          'receivedAt', 'sentAt', 'hasAttachment', 'preview',
+          'bodyStructure', 'bodyValues', 'textBody', 'htmlBody', 'attachments',
+          'keywords', 'mailboxIds', 'size', 'messageId', 'references', 'inReplyTo', 'replyTo'
+        ],
+        bodyProperties: ['partId', 'blobId', 'type', 'name', 'disposition', 'size'],
+        fetchTextBodyValues: true,
+        fetchHTMLBodyValues: true,
+        maxBodyValueBytes: 1024 * 1024, // 1MB
+      }, 'email'],
     ]);
 
     return response.methodResponses[0][1];
   }
 
-  async deleteContact(contactId: string): Promise<any> {
+  async getThread(emailId: string): Promise<any> {
+    // Resolve the email's thread and fetch every message in it in one request
     const response = await this.jmapRequest([
-      ['Contact/set', {
-        accountId: this.session!.accountId,
-        destroy: [contactId],
-      }, 'a']
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        ids: [emailId],
+        properties: ['threadId'],
+      }, 'email'],
+      ['Thread/get', {
+        accountId: this.session?.accountId,
+        '#ids': {
+          resultOf: 'email',
+          name: 'Email/get',
+          path: '/list/*/threadId',
+        },
+      }, 'thread'],
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        '#ids': {
+          resultOf: 'thread',
+          name: 'Thread/get',
+          path: '/list/*/emailIds',
+        },
+        properties: [
+          'id', 'threadId', 'subject', 'from', 'to', 'cc',
+          'receivedAt', 'sentAt', 'hasAttachment', 'preview',
+          'textBody', 'htmlBody', 'bodyValues', 'keywords'
+        ],
+        fetchTextBodyValues: true,
+        fetchHTMLBodyValues: true,
+        maxBodyValueBytes: 256 * 1024, // 256KB per message
+      }, 'emails'],
     ]);
 
-    return response.methodResponses[0][1];
+    const email = response.methodResponses[0][1].list?.[0];
+    if (!email) {
+      throw new Error(`Email "${emailId}" not found`);
+    }
+
+    const thread = response.methodResponses[1][1].list?.[0];
+    const emails = [...(response.methodResponses[2][1].list || [])]
+      .sort((a: any, b: any) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+
+    return {
+      threadId: email.threadId,
+      emailIds: thread?.emailIds || [],
+      messages: emails.map((message: any) => ({
+        id: message.id,
+        subject: message.subject,
+        from: message.from,
+        to: message.to,
+        cc: message.cc,
+        receivedAt: message.receivedAt,
+        sentAt: message.sentAt,
+        hasAttachment: message.hasAttachment,
+        keywords: message.keywords,
+        text: this.getEmailText(message),
+      })),
+    };
   }
-}
 
-class JmapMCPServer {
-  private server: Server;
-  private client: JmapJMAPClient | null = null;
-  private initPromise: Promise<void>;
-  private isInitialized: boolean = false;
+  async getAttachment(options: {
+    blobId?: string;
+    emailId?: string;
+    partId?: string;
+    name?: string;
+    type?: string;
+    save?: boolean;
+  }): Promise<any> {
+    let { blobId, name, type } = options;
 
-  constructor() {
-    this.server = new Server(
-      {
-        name: 'jmap-server',
-        version: '0.1.0',
-        capabilities: {
-          tools: {},
-        },
+    // Resolve the blob from an email part when no blobId is given
+    if (!blobId) {
+      if (!options.emailId || !options.partId) {
+        throw new Error('Either blobId or emailId with partId is required');
       }
-    );
 
-    // Initialize connection asynchronously
-    this.initPromise = this.initializeFromEnv();
-    this.setupToolHandlers();
+      const emailResult = await this.getEmailById(options.emailId);
+      const email = emailResult.list?.[0];
+      if (!email) {
+        throw new Error(`Email "${options.emailId}" not found`);
+      }
+
+      const findPart = (part: any): any => {
+        if (!part) return null;
+        if (part.partId === options.partId) return part;
+        for (const subPart of part.subParts || []) {
+          const found = findPart(subPart);
+          if (found) return found;
+        }
+        return null;
+      };
+
+      const part = (email.attachments || []).find((att: any) => att.partId === options.partId)
+        || findPart(email.bodyStructure);
+      if (!part || !part.blobId) {
+        throw new Error(`Part "${options.partId}" not found in email "${options.emailId}"`);
+      }
+
+      blobId = part.blobId;
+      name = name || part.name;
+      type = type || part.type;
+    }
+
+    const fileName = name || blobId!;
+    const mimeType = type || guessMimeType(fileName);
+
+    // Save to the configured directory instead of returning the content
+    if (options.save) {
+      if (!this.config.downloadDir) {
+        throw new Error('No download directory configured. Set JMAP_DOWNLOAD_DIR or downloadDir in the config file');
+      }
+
+      const saveName = basename(fileName).trim();
+      if (!saveName || saveName === '.' || saveName === '..') {
+        throw new Error(`Cannot save an attachment named "${fileName}". Pass a name to save it under`);
+      }
+
+      const downloadDir = resolve(this.config.downloadDir);
+      mkdirSync(downloadDir, { recursive: true });
+      const filePath = uniqueFilePath(downloadDir, saveName);
+
+      const response = await this.downloadBlob(blobId!, fileName, mimeType);
+      await pipeline(response.body, createWriteStream(filePath, { flags: 'wx' }));
+      console.error(`Saved blob ${blobId} to ${filePath}`);
+
+      return {
+        blobId,
+        name: fileName,
+        type: mimeType,
+        savedTo: filePath,
+      };
+    }
+
+    const response = await this.downloadBlob(blobId!, fileName, mimeType);
+    const maxBytes = this.config.maxAttachmentBytes || DEFAULT_MAX_ATTACHMENT_BYTES;
+    const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+    if (contentLength > maxBytes) {
+      response.body?.destroy();
+      throw new Error(`Attachment is ${contentLength} bytes, which exceeds the ${maxBytes} byte limit. Use save: true to store it in the download directory instead`);
+    }
+
+    // Stream the body, stopping as soon as the size cap is exceeded
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response.body) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        response.body.destroy();
+        throw new Error(`Attachment exceeds the ${maxBytes} byte limit. Use save: true to store it in the download directory instead`);
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+
+    return {
+      blobId,
+      name: fileName,
+      type: mimeType,
+      size,
+      data: Buffer.concat(chunks),
+    };
   }
 
-  private async initializeFromEnv(): Promise<void> {
-    try {
-      console.error('=== MCP Server Initialization ===');
-      console.error('Environment variables check:');
-      console.error(`JMAP_BASE_URL: ${process.env.JMAP_BASE_URL ? 'SET' : 'NOT SET'}`);
-      console.error(`JMAP_USERNAME: ${process.env.JMAP_USERNAME ? 'SET' : 'NOT SET'}`);
-      console.error(`JMAP_PASSWORD: ${process.env.JMAP_PASSWORD ? 'SET' : 'NOT SET'}`);
-      console.error(`JMAP_ACCOUNT_ID: ${process.env.JMAP_ACCOUNT_ID ? 'SET' : 'NOT SET'}`);
-      
-      let config: JmapConfig | null = null;
+  private async resolveMailboxId(mailboxId: string): Promise<string> {
+    await this.ensureMailboxCache();
 
-      // Try to create default config from environment variables first
-      config = createDefaultConfig();
-      
-      if (config) {
-        console.error('✅ Using environment variables for configuration');
-        console.error(`Base URL: ${config.baseUrl}`);
-        console.error(`Username: ${config.username}`);
-        if (config.accountId) {
-          console.error(`Account ID: ${config.accountId}`);
-        }
-      } else {
-        console.error('❌ Environment variables not complete, trying config files...');
-        // Try config file
-        const configPaths = [
-          process.env.JMAP_CONFIG_PATH,
-          resolve(process.cwd(), 'jmap-config.json'),
-          resolve(process.env.HOME || '~', '.jmap-config.json'),
-        ].filter(Boolean) as string[];
-
-        for (const configPath of configPaths) {
-          if (existsSync(configPath)) {
-            try {
-              const configData = readFileSync(configPath, 'utf8');
-              config = JSON.parse(configData);
-              console.error(`Loaded config from ${configPath}`);
-              break;
-            } catch (error) {
-              console.error(`Failed to read config from ${configPath}: ${error}`);
-            }
-          }
-        }
+    // Accept real mailbox IDs as-is, otherwise resolve by name or role
+    if (this.mailboxCache.some(mb => mb.id === mailboxId)) {
+      return mailboxId;
+    }
+
+    const foundMailboxId = await this.findMailboxByName(mailboxId);
+    if (!foundMailboxId) {
+      throw new Error(`Mailbox "${mailboxId}" not found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
+    }
+    return foundMailboxId;
+  }
+
+  // Like resolveMailboxId, but refuses partial name matches for destructive operations
+  private async resolveExactMailboxId(mailbox: string, action: string): Promise<string> {
+    const mailboxId = await this.resolveMailboxId(mailbox);
+    const mailboxInfo = this.mailboxCache.find(mb => mb.id === mailboxId);
+
+    const normalized = mailbox.toLowerCase().trim();
+    if (mailboxId !== mailbox && mailboxInfo?.name.toLowerCase() !== normalized && mailboxInfo?.role !== normalized) {
+      throw new Error(`"${mailbox}" does not exactly match a mailbox (closest: "${mailboxInfo?.name}"). Use the exact name, role or ID to ${action} it`);
+    }
+    return mailboxId;
+  }
+
+  private async buildEmailFilter(filter: EmailFilter): Promise<any> {
+    // Operators nest recursively: { operator: 'AND' | 'OR' | 'NOT', conditions: [...] }
+    if ('operator' in filter) {
+      const operator = String(filter.operator).toUpperCase();
+      if (!['AND', 'OR', 'NOT'].includes(operator)) {
+        throw new Error(`Invalid filter operator "${filter.operator}". Use AND, OR or NOT`);
+      }
+      if (!Array.isArray(filter.conditions) || filter.conditions.length === 0) {
+        throw new Error(`Filter operator ${operator} requires a non-empty conditions array`);
       }
 
-      if (config?.baseUrl && config?.username && config?.password) {
-        console.error(`Attempting connection to ${config.baseUrl} as ${config.username}`);
-        try {
-          this.client = new JmapJMAPClient(config);
-          
-          // Test connection
-          await this.client.getMailboxes();
-          this.isInitialized = true;
-          console.error(`✅ Auto-connected to Jmap Mail server at ${config.baseUrl} as ${config.username}`);
-        } catch (error) {
-          console.error(`❌ Failed to auto-connect to Jmap server: ${error instanceof Error ? error.message : String(error)}`);
-          this.client = null;
-          this.isInitialized = false;
+      return {
+        operator,
+        conditions: await Promise.all(filter.conditions.map(condition => this.buildEmailFilter(condition))),
+      };
+    }
+
+    const condition: any = {};
+    const stringFields: (keyof EmailFilterCondition)[] = [
+      'text', 'from', 'to', 'cc', 'bcc', 'subject', 'body',
+      'hasKeyword', 'notKeyword',
+      'allInThreadHaveKeyword', 'someInThreadHaveKeyword', 'noneInThreadHaveKeyword',
+    ];
+    for (const field of stringFields) {
+      if (filter[field] !== undefined && filter[field] !== '') {
+        condition[field] = filter[field];
+      }
+    }
+
+    // JMAP requires UTCDate values such as 2024-01-15T00:00:00Z
+    for (const field of ['before', 'after'] as const) {
+      if (filter[field]) {
+        const date = new Date(filter[field]!);
+        if (isNaN(date.getTime())) {
+          throw new Error(`Invalid ${field} date "${filter[field]}". Use ISO 8601 format (e.g., "2024-01-15" or "2024-01-15T10:00:00Z")`);
         }
-      } else {
-        console.error('❌ No valid configuration found');
-        this.isInitialized = false;
+        condition[field] = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
       }
-    } catch (error) {
-      console.error(`❌ Initialization error: ${error}`);
-      this.isInitialized = false;
     }
+
+    if (filter.minSize !== undefined) condition.minSize = filter.minSize;
+    if (filter.maxSize !== undefined) condition.maxSize = filter.maxSize;
+    if (filter.hasAttachment !== undefined) condition.hasAttachment = filter.hasAttachment;
+
+    if (filter.inMailbox) {
+      condition.inMailbox = await this.resolveMailboxId(filter.inMailbox);
+    }
+    if (filter.inMailboxOtherThan && filter.inMailboxOtherThan.length > 0) {
+      condition.inMailboxOtherThan = await Promise.all(
+        filter.inMailboxOtherThan.map(mailbox => this.resolveMailboxId(mailbox))
+      );
+    }
+
+    if (filter.header && filter.header.length > 0) {
+      if (filter.header.length > 2) {
+        throw new Error('header filter takes [name] or [name, value]');
+      }
+      condition.header = filter.header;
+    }
+
+    return condition;
   }
 
-  private async ensureInitialized(): Promise<void> {
-    await this.initPromise;
+  private async buildSearchFilter(criteria: EmailSearchCriteria): Promise<any> {
+    const { query, mailboxId, filter: compositeFilter, ...conditionFields } = criteria;
+
+    // Top-level fields form one condition, ANDed with any composite filter
+    const condition = await this.buildEmailFilter({
+      ...conditionFields,
+      text: query ?? conditionFields.text,
+      inMailbox: mailboxId ?? conditionFields.inMailbox,
+    });
+
+    let filter: any = condition;
+    if (compositeFilter) {
+      const composite = await this.buildEmailFilter(compositeFilter);
+      filter = Object.keys(condition).length > 0
+        ? { operator: 'AND', conditions: [condition, composite] }
+        : composite;
+    }
+
+    if (Object.keys(filter).length === 0) {
+      throw new Error('At least one search criterion is required');
+    }
+
+    return filter;
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'connect_jmap',
-            description: 'Connect to Jmap Mail server using JMAP, Calling this function is completely optional as connection to jmap server actually is automaticly done by default',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                baseUrl: {
-                  type: 'string',
-                  description: 'Base URL of the Jmap Mail server (e.g., https://mail.example.com)',
-                },
-                username: {
-                  type: 'string',
-                  description: 'Username/email for authentication',
-                },
-                password: {
-                  type: 'string',
-                  description: 'Password for authentication',
-                },
-              },
-              required: ['baseUrl', 'username', 'password'],
-            },
-          },
+  async searchEmails(criteria: EmailSearchCriteria, limit: number = 20, collapseThreads: boolean = false, page: PageCursor = {}): Promise<any> {
+    const filter = await this.buildSearchFilter(criteria);
+
+    const { query, emails, source } = await this.queryEmails(filter, collapseThreads, limit, page, [
+      'id', 'subject', 'from', 'to', 'receivedAt', 
+      'preview', 'hasAttachment', 'keywords', 'mailboxIds', 'threadId'
+    ]);
+
+    return {
+      query,
+      emails,
+      pagination: paginationInfo(query, limit),
+      filter,
+      source,
+    };
+  }
+
+  // /get for any number of IDs, split to the server's maxObjectsInGet and maxCallsInRequest limits
+  private async getInBatches(type: string, ids: string[], properties?: string[]): Promise<{ list: any[]; notFound: string[] }> {
+    if (!this.session) {
+      await this.getSession();
+    }
+
+    const { maxObjectsInGet, maxCallsInRequest } = this.session!.limits;
+    const list: any[] = [];
+    const notFound: string[] = [];
+
+    const calls: any[] = [];
+    for (let i = 0; i < ids.length; i += maxObjectsInGet) {
+      calls.push([`${type}/get`, {
+        accountId: this.session?.accountId,
+        ids: ids.slice(i, i + maxObjectsInGet),
+        ...(properties ? { properties } : {}),
+      }, `get${calls.length}`]);
+    }
+
+    for (let i = 0; i < calls.length; i += maxCallsInRequest) {
+      const response = await this.jmapRequest(calls.slice(i, i + maxCallsInRequest));
+      for (const [name, result] of response.methodResponses) {
+        if (name === 'error') {
+          throw new Error(`${type}/get failed: ${result.type}${result.description ? ` - ${result.description}` : ''}`);
+        }
+        list.push(...(result.list || []));
+        notFound.push(...(result.notFound || []));
+      }
+    }
+
+    return { list, notFound };
+  }
+
+  // Collect every change since a state, following hasMoreChanges until caught up
+  private async getChanges(type: string, sinceState: string): Promise<any> {
+    const created = new Set<string>();
+    const updated = new Set<string>();
+    const destroyed = new Set<string>();
+    let state = sinceState;
+    let hasMoreChanges = true;
+
+    while (hasMoreChanges) {
+      const response = await this.jmapRequest([
+        [`${type}/changes`, {
+          accountId: this.session?.accountId,
+          sinceState: state,
+          maxChanges: CHANGES_PAGE_SIZE,
+        }, 'changes'],
+      ]);
+
+      const [name, result] = response.methodResponses[0];
+      if (name === 'error') {
+        if (result.type === 'cannotCalculateChanges') {
+          return { oldState: sinceState, cannotCalculateChanges: true, created: [], updated: [], destroyed: [] };
+        }
+        throw new Error(`${type}/changes failed: ${result.type}${result.description ? ` - ${result.description}` : ''}`);
+      }
+
+      // Later pages win: an object created then destroyed disappears entirely
+      for (const id of result.created || []) {
+        created.add(id);
+      }
+      for (const id of result.updated || []) {
+        if (!created.has(id)) {
+          updated.add(id);
+        }
+      }
+      for (const id of result.destroyed || []) {
+        updated.delete(id);
+        if (!created.delete(id)) {
+          destroyed.add(id);
+        }
+      }
+
+      state = result.newState;
+      hasMoreChanges = result.hasMoreChanges;
+    }
+
+    return {
+      oldState: sinceState,
+      newState: state,
+      created: [...created],
+      updated: [...updated],
+      destroyed: [...destroyed],
+    };
+  }
+
+  private async getCurrentState(type: string): Promise<string> {
+    const response = await this.jmapRequest([
+      [`${type}/get`, {
+        accountId: this.session?.accountId,
+        ids: [],
+      }, 'state'],
+    ]);
+
+    const [name, result] = response.methodResponses[0];
+    if (name === 'error') {
+      throw new Error(`${type}/get failed: ${result.type}${result.description ? ` - ${result.description}` : ''}`);
+    }
+    return result.state;
+  }
+
+  // Report what changed for a data type since a given state, or since the previous call
+  async getChangesSince(type: string, sinceState?: string, options: {
+    mailboxId?: string;         // Mailbox for Email/queryChanges (as used by get_emails)
+    sinceQueryState?: string;   // queryState from a previous get_emails result
+    collapseThreads?: boolean;
+    includeDetails?: boolean;   // Fetch headers for new and updated emails
+  } = {}): Promise<any> {
+    const baseline = sinceState || this.changeCheckpoints[type];
+    if (!baseline) {
+      const state = await this.getCurrentState(type);
+      this.changeCheckpoints[type] = state;
+      return {
+        type,
+        newState: state,
+        baseline: true,
+        summary: `No previous ${type} state recorded; current state is ${state}. Call again to see changes from now on.`,
+      };
+    }
+
+    const changes = await this.getChanges(type, baseline);
+    if (changes.cannotCalculateChanges) {
+      const state = await this.getCurrentState(type);
+      this.changeCheckpoints[type] = state;
+      return {
+        type,
+        oldState: baseline,
+        newState: state,
+        cannotCalculateChanges: true,
+        summary: `The server can no longer calculate ${type} changes since ${baseline}; refetch the data. Current state is ${state}.`,
+      };
+    }
+    this.changeCheckpoints[type] = changes.newState;
+
+    const result: any = {
+      type,
+      ...changes,
+      summary: `${changes.created.length} new, ${changes.updated.length} updated, ${changes.destroyed.length} destroyed since ${baseline}`,
+    };
+
+    if (type === 'Email' && options.includeDetails !== false) {
+      const ids = [...changes.created, ...changes.updated].slice(0, 50);
+      if (ids.length > 0) {
+        const response = await this.jmapRequest([
+          ['Email/get', {
+            accountId: this.session?.accountId,
+            ids,
+            properties: ['id', 'subject', 'from', 'receivedAt', 'keywords', 'mailboxIds', 'threadId'],
+          }, 'emails'],
+        ]);
+        result.emails = response.methodResponses[0][1].list || [];
+      }
+    }
+
+    if (type === 'Email' && options.sinceQueryState) {
+      result.queryChanges = await this.getQueryChanges(options.sinceQueryState, options.mailboxId, options.collapseThreads);
+    }
+
+    return result;
+  }
+
+  // Email/queryChanges for the get_emails query (receivedAt descending, optionally in one mailbox)
+  private async getQueryChanges(sinceQueryState: string, mailboxId?: string, collapseThreads: boolean = false): Promise<any> {
+    const filter = mailboxId ? { inMailbox: await this.resolveMailboxId(mailboxId) } : {};
+
+    const response = await this.jmapRequest([
+      ['Email/queryChanges', {
+        accountId: this.session?.accountId,
+        filter,
+        sort: [{ property: 'receivedAt', isAscending: false }],
+        collapseThreads,
+        sinceQueryState,
+        calculateTotal: true,
+      }, 'queryChanges'],
+    ]);
+
+    const [name, result] = response.methodResponses[0];
+    if (name === 'error') {
+      if (result.type === 'cannotCalculateChanges') {
+        return { oldQueryState: sinceQueryState, cannotCalculateChanges: true };
+      }
+      throw new Error(`Email/queryChanges failed: ${result.type}${result.description ? ` - ${result.description}` : ''}`);
+    }
+
+    return {
+      oldQueryState: result.oldQueryState,
+      newQueryState: result.newQueryState,
+      total: result.total,
+      added: result.added || [],
+      removed: result.removed || [],
+    };
+  }
+
+  private async findDraftsMailbox(allowFallback: boolean = false): Promise<string> {
+    // Ensure mailboxes are loaded
+    await this.ensureMailboxCache();
+
+    // Find the Drafts mailbox - try multiple strategies
+    let draftsMailboxId: string | null = null;
+    
+    // Strategy 1: Look for role-based drafts
+    for (const mailbox of this.mailboxCache) {
+      if (mailbox.role === 'drafts') {
+        draftsMailboxId = mailbox.id;
+        console.error(`Found drafts mailbox by role: ${mailbox.name} (${mailbox.id})`);
+        break;
+      }
+    }
+    
+    // Strategy 2: Look for name-based drafts
+    if (!draftsMailboxId) {
+      for (const mailbox of this.mailboxCache) {
+        if (mailbox.name && mailbox.name.toLowerCase().includes('draft')) {
+          draftsMailboxId = mailbox.id;
+          console.error(`Found drafts mailbox by name: ${mailbox.name} (${mailbox.id})`);
+          break;
+        }
+      }
+    }
+
+    // Strategy 3: Use first writable mailbox (only when sending straight away)
+    if (!draftsMailboxId && allowFallback && this.mailboxCache.length > 0) {
+      // Look for inbox or any writable mailbox
+      const writableMailbox = this.mailboxCache.find(mb => 
+        mb.role === 'inbox' || 
+        (!mb.isReadOnly && mb.myRights && (mb.myRights.mayAddItems || mb.myRights.mayCreateChild))
+      );
+      if (writableMailbox) {
+        draftsMailboxId = writableMailbox.id;
+        console.error(`Using writable mailbox: ${writableMailbox.name} (${writableMailbox.id})`);
+      } else {
+        // Last resort: use first mailbox
+        draftsMailboxId = this.mailboxCache[0].id;
+        console.error(`Using first available mailbox: ${this.mailboxCache[0].name} (${this.mailboxCache[0].id})`);
+      }
+    }
+
+    if (!draftsMailboxId) {
+      throw new Error(allowFallback
+        ? 'No suitable mailbox found for creating draft email'
+        : 'No Drafts mailbox found. Available mailboxes: ' + this.mailboxCache.map(mb => mb.name).join(', '));
+    }
+
+    return draftsMailboxId;
+  }
+
+  private validateAddresses(addresses: string[]): void {
+    // Validate that all email addresses contain @ symbol
+    for (const email of addresses) {
+      if (!email.includes('@')) {
+        throw new Error(`Invalid email address: "${email}". Email addresses must be in the format user@domain.com`);
+      }
+    }
+  }
+
+  private async buildDraftEmail(emailData: EmailDraftData, draftsMailboxId: string): Promise<{ email: any; identity: any; attachmentParts: any[] }> {
+    // Resolve the sending identity so the From header matches what the server allows
+    const identity = await this.resolveIdentity(emailData.fromIdentity);
+    console.error(`Using sender identity: ${identity.email} (${identity.id})`);
+
+    // Build the email object with proper JMAP structure
+    const email: any = {
+      from: [identity.name ? { name: identity.name, email: identity.email } : { email: identity.email }],
+      to: (emailData.to || []).map(email => ({ email: email.trim() })),
+      subject: emailData.subject || '',
+      keywords: { '$draft': true },
+      mailboxIds: { [draftsMailboxId]: true }
+    };
+
+    // Add optional recipients
+    if (emailData.cc && emailData.cc.length > 0) {
+      email.cc = emailData.cc.map(email => ({ email: email.trim() }));
+    }
+
+    if (emailData.bcc && emailData.bcc.length > 0) {
+      email.bcc = emailData.bcc.map(email => ({ email: email.trim() }));
+    }
+
+    if (identity.replyTo && identity.replyTo.length > 0) {
+      email.replyTo = identity.replyTo;
+    }
+
+    // Add reply references
+    if (emailData.inReplyTo) {
+      email.inReplyTo = [emailData.inReplyTo];
+    }
+    if (emailData.references && emailData.references.length > 0) {
+      email.references = emailData.references;
+    }
+
+    // Upload attachments as blobs and build the body structure around them
+    const attachmentParts = emailData.attachments && emailData.attachments.length > 0
+      ? await this.uploadAttachments(emailData.attachments)
+      : [];
+    const body = this.buildEmailBody(emailData.textBody, emailData.htmlBody, attachmentParts);
+    email.bodyStructure = body.bodyStructure;
+    email.bodyValues = body.bodyValues;
+
+    return { email, identity, attachmentParts };
+  }
+
+  async createDraft(emailData: EmailDraftData, allowMailboxFallback: boolean = false): Promise<any> {
+    const draftsMailboxId = await this.findDraftsMailbox(allowMailboxFallback);
+    const { email, identity, attachmentParts } = await this.buildDraftEmail(emailData, draftsMailboxId);
+
+    console.error('Creating email with structure:', JSON.stringify(email, null, 2));
+
+    const createResponse = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        create: {
+          'draft': email
+        }
+      }, 'createDraft']
+    ]);
+
+    console.error('Create draft response:', JSON.stringify(createResponse, null, 2));
+
+    const createResult = createResponse.methodResponses[0][1];
+    
+    // Check for creation errors
+    if (createResult.notCreated && createResult.notCreated.draft) {
+      const error = createResult.notCreated.draft;
+      console.error('Draft creation failed:', error);
+      throw new Error(`Failed to create draft: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
+    }
+
+    if (!createResult.created || !createResult.created.draft) {
+      console.error('No draft created in response:', createResult);
+      throw new Error('Draft creation failed - no created object returned');
+    }
+
+    const draftId = createResult.created.draft.id;
+    console.error(`✅ Created draft with ID: ${draftId}`);
+
+    return {
+      success: true,
+      draftId,
+      mailboxId: draftsMailboxId,
+      identity: { id: identity.id, email: identity.email },
+      attachments: attachmentParts,
+      createResponse: createResult,
+    };
+  }
+
+  async updateDraft(draftId: string, changes: Partial<EmailDraftData>): Promise<any> {
+    const emailResult = await this.getEmailById(draftId);
+    const draft = emailResult.list?.[0];
+    if (!draft) {
+      throw new Error(`Draft "${draftId}" not found`);
+    }
+    if (!draft.keywords?.['$draft']) {
+      throw new Error(`Email "${draftId}" is not a draft`);
+    }
+
+    // JMAP emails are immutable, so merge the changes into a replacement draft
+    const addresses = (list: any[] | null | undefined) => (list || []).map((address: any) => address.email);
+    const values = draft.bodyValues || {};
+    const bodyText = (parts: any[] | null | undefined, type: string) => (parts || [])
+      .filter((part: any) => part.type === type && values[part.partId])
+      .map((part: any) => values[part.partId].value)
+      .join('\n');
+    const hasHtml = (draft.htmlBody || []).some((part: any) => part.type === 'text/html');
+
+    const merged: EmailDraftData = {
+      to: changes.to ?? addresses(draft.to),
+      cc: changes.cc ?? addresses(draft.cc),
+      bcc: changes.bcc ?? addresses(draft.bcc),
+      subject: changes.subject ?? draft.subject ?? '',
+      textBody: changes.textBody ?? bodyText(draft.textBody, 'text/plain'),
+      htmlBody: changes.htmlBody ?? (hasHtml ? bodyText(draft.htmlBody, 'text/html') : undefined),
+      inReplyTo: changes.inReplyTo ?? draft.inReplyTo?.[0],
+      references: changes.references ?? (draft.references || undefined),
+      fromIdentity: changes.fromIdentity ?? draft.from?.[0]?.email,
+      attachments: changes.attachments ?? (draft.attachments || []).map((attachment: any) => ({
+        blobId: attachment.blobId,
+        name: attachment.name || undefined,
+        type: attachment.type,
+      })),
+    };
+
+    const draftsMailboxId = Object.keys(draft.mailboxIds || {})[0] || await this.findDraftsMailbox();
+    const { email } = await this.buildDraftEmail(merged, draftsMailboxId);
+    email.mailboxIds = draft.mailboxIds || email.mailboxIds;
+
+    // Create the replacement first so a failed create never loses the old draft
+    const createResponse = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        create: {
+          'draft': email
+        }
+      }, 'updateDraft']
+    ]);
+
+    const createResult = createResponse.methodResponses[0][1];
+
+    if (createResult.notCreated && createResult.notCreated.draft) {
+      const error = createResult.notCreated.draft;
+      throw new Error(`Failed to update draft: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
+    }
+
+    if (!createResult.created || !createResult.created.draft) {
+      throw new Error('Failed to update draft - no created object returned');
+    }
+
+    const destroyResponse = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        destroy: [draftId]
+      }, 'destroyDraft']
+    ]);
+
+    const destroyResult = destroyResponse.methodResponses[0][1];
+
+    return {
+      success: true,
+      draftId: createResult.created.draft.id,
+      previousDraftId: draftId,
+      destroyed: destroyResult.destroyed || [],
+      notDestroyed: destroyResult.notDestroyed || null,
+    };
+  }
+
+  async listDrafts(limit: number = 20): Promise<any> {
+    const draftsMailboxId = await this.findDraftsMailbox();
+
+    const response = await this.jmapRequest([
+      ['Email/query', {
+        accountId: this.session?.accountId,
+        filter: { inMailbox: draftsMailboxId },
+        sort: [{ property: 'receivedAt', isAscending: false }],
+        limit,
+      }, 'query'],
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        '#ids': {
+          resultOf: 'query',
+          name: 'Email/query',
+          path: '/ids',
+        },
+        properties: [
+          'id', 'subject', 'from', 'to', 'cc', 'bcc',
+          'receivedAt', 'hasAttachment', 'preview', 'keywords'
+        ],
+      }, 'drafts'],
+    ]);
+
+    return {
+      query: response.methodResponses[0][1],
+      drafts: response.methodResponses[1][1],
+      mailboxUsed: draftsMailboxId,
+    };
+  }
+
+  async sendDraft(draftId: string): Promise<any> {
+    const draftResponse = await this.jmapRequest([
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        ids: [draftId],
+        properties: ['id', 'from', 'to', 'cc', 'bcc', 'subject', 'mailboxIds', 'keywords'],
+      }, 'draft']
+    ]);
+
+    const draft = draftResponse.methodResponses[0][1].list?.[0];
+    if (!draft) {
+      throw new Error(`Draft "${draftId}" not found`);
+    }
+    if (!draft.keywords?.['$draft']) {
+      throw new Error(`Email "${draftId}" is not a draft`);
+    }
+
+    const to = (draft.to || []).map((address: any) => address.email);
+    const cc = (draft.cc || []).map((address: any) => address.email);
+    const bcc = (draft.bcc || []).map((address: any) => address.email);
+    if (to.length + cc.length + bcc.length === 0) {
+      throw new Error('Draft has no recipients');
+    }
+
+    const fromEmail = draft.from?.[0]?.email;
+    const identity = await this.resolveIdentity(fromEmail);
+    this.validateAddresses([identity.email, ...to, ...cc, ...bcc]);
+
+    console.error('=== Submitting email for sending ===');
+
+    // Build submission envelope with correct sender
+    const envelope = {
+      mailFrom: { email: identity.email },
+      rcptTo: [...to, ...cc, ...bcc].map(email => ({ email: email.trim() }))
+    };
+    
+    console.error('Submission envelope:', JSON.stringify(envelope, null, 2));
+
+    // On success, move the message out of Drafts into Sent, mark it seen and clear $draft
+    await this.ensureMailboxCache();
+    const sentMailbox = this.mailboxCache.find(mb => mb.role === 'sent');
+    const onSuccessUpdate: any = { 'keywords/$draft': null, 'keywords/$seen': true };
+    if (sentMailbox) {
+      for (const mailboxId of Object.keys(draft.mailboxIds || {})) {
+        if (mailboxId !== sentMailbox.id) {
+          onSuccessUpdate[`mailboxIds/${mailboxId}`] = null;
+        }
+      }
+      onSuccessUpdate[`mailboxIds/${sentMailbox.id}`] = true;
+    } else {
+      console.error('No sent mailbox found, leaving the message in its current mailbox');
+    }
+    
+    const submitResponse = await this.jmapRequest([
+      ['EmailSubmission/set', {
+        accountId: this.session?.accountId,
+        create: {
+          'send': {
+            emailId: draftId,
+            identityId: identity.id,
+            envelope
+          }
+        },
+        onSuccessUpdateEmail: {
+          '#send': onSuccessUpdate
+        }
+      }, 'submitEmail']
+    ]);
+
+    console.error('Submit email response:', JSON.stringify(submitResponse, null, 2));
+
+    const submitResult = submitResponse.methodResponses[0][1];
+    
+    // Check for submission errors
+    if (submitResult.notCreated && submitResult.notCreated.send) {
+      const error = submitResult.notCreated.send;
+      console.error('Email submission failed:', error);
+      throw new Error(`Failed to send email: ${error.type || 'Unknown error'} - ${error.description || JSON.stringify(error)}`);
+    }
+
+    if (!submitResult.created || !submitResult.created.send) {
+      console.error('No submission created in response:', submitResult);
+      throw new Error('Email submission failed - no submission object returned');
+    }
+
+    console.error('✅ Email sent successfully!');
+
+    // The server reports the onSuccessUpdateEmail result as an implicit Email/set response
+    const updateResponse = submitResponse.methodResponses.find((r: any) => r[0] === 'Email/set');
+    let updateResult = updateResponse ? updateResponse[1] : null;
+
+    if (!updateResult?.updated || !(draftId in updateResult.updated)) {
+      // Not applied (or not supported) - fall back to a separate Email/set
+      console.error('onSuccessUpdateEmail not applied, updating sent email directly:', JSON.stringify(updateResult?.notUpdated || null));
+      try {
+        const followUpResponse = await this.jmapRequest([
+          ['Email/set', {
+            accountId: this.session?.accountId,
+            update: {
+              [draftId]: onSuccessUpdate
+            }
+          }, 'moveToSent']
+        ]);
+        updateResult = followUpResponse.methodResponses[0][1];
+      } catch (error) {
+        // The message has already been sent, so don't fail the whole operation
+        console.error('Follow-up Email/set failed:', error);
+      }
+    }
+
+    const moved = !!updateResult?.updated && draftId in updateResult.updated;
+    const finalMailboxIds = moved && sentMailbox
+      ? [sentMailbox.id]
+      : Object.keys(draft.mailboxIds || {});
+    const location = finalMailboxIds.map(mailboxId => {
+      const mailbox = this.mailboxCache.find(mb => mb.id === mailboxId);
+      return { mailboxId, name: mailbox?.name || mailboxId, role: mailbox?.role || null };
+    });
+
+    if (!moved) {
+      console.error('Failed to move sent email out of Drafts:', JSON.stringify(updateResult?.notUpdated || null));
+    }
+
+    return {
+      success: true,
+      emailId: draftId,
+      submissionId: submitResult.created.send.id,
+      identity: { id: identity.id, email: identity.email },
+      location,
+      movedToSent: moved && !!sentMailbox,
+      submitResponse: submitResult,
+      message: `Email sent successfully to ${[...to, ...cc].join(', ')}; saved in ${location.map(mb => mb.name).join(', ')}`
+    };
+  }
+
+  async sendEmail(emailData: EmailDraftData): Promise<any> {
+    console.error('=== Starting sendEmail process ===');
+    console.error('Email data:', JSON.stringify(emailData, null, 2));
+
+    // Validate required fields
+    if (!emailData.to || emailData.to.length === 0) {
+      throw new Error('Recipients (to field) are required');
+    }
+    if (!emailData.subject) {
+      throw new Error('Subject is required');
+    }
+    if (!emailData.textBody && !emailData.htmlBody) {
+      throw new Error('Either textBody or htmlBody is required');
+    }
+    this.validateAddresses([...emailData.to, ...(emailData.cc || []), ...(emailData.bcc || [])]);
+
+    // Step 1: Create the draft
+    console.error('=== Step 1: Creating draft ===');
+    const draft = await this.createDraft(emailData, true);
+
+    try {
+      // Step 2: Submit for sending
+      console.error('=== Step 2: Submitting email for sending ===');
+      const submission = await this.sendDraft(draft.draftId);
+      
+      return {
+        ...submission,
+        createResponse: draft.createResponse,
+        attachments: draft.attachments,
+        message: `Email sent successfully to ${emailData.to.join(', ')}; saved in ${submission.location.map((mb: any) => mb.name).join(', ')}`
+      };
+      
+    } catch (error) {
+      console.error('❌ Error in sendEmail process:', error);
+
+      // Don't leave an orphaned draft behind when submission fails
+      try {
+        await this.jmapRequest([
+          ['Email/set', {
+            accountId: this.session?.accountId,
+            destroy: [draft.draftId]
+          }, 'destroyDraft']
+        ]);
+        console.error(`Removed unsent draft ${draft.draftId}`);
+      } catch (cleanupError) {
+        console.error(`Failed to remove unsent draft ${draft.draftId}:`, cleanupError);
+      }
+      
+      // Explain HTTP failures of the API endpoint; JMAP errors (missing draft, mailbox, ...) pass through as-is
+      const status = error instanceof Error ? error.message.match(/^JMAP request failed: (\d{3})/)?.[1] : undefined;
+      if (status === '404') {
+        throw new Error('Email service endpoint not found. Please check your JMAP server configuration.');
+      }
+      if (status === '401') {
+        throw new Error('Authentication failed. Please check your credentials.');
+      }
+      if (status === '403') {
+        throw new Error('Insufficient permissions to send email. Please check your account permissions.');
+      }
+      
+      throw error;
+    }
+  }
+
+  async replyToEmail(emailId: string, replyData: {
+    textBody?: string;
+    htmlBody?: string;
+    cc?: string[];
+    bcc?: string[];
+    attachments?: EmailAttachment[];
+    quoteOriginal?: boolean;
+    fromIdentity?: string;
+  }, replyAll: boolean = false): Promise<any> {
+    const emailResult = await this.getEmailById(emailId);
+    const original = emailResult.list?.[0];
+    if (!original) {
+      throw new Error(`Email "${emailId}" not found`);
+    }
+
+    const { to, cc } = replyRecipients(original, await this.getOwnAddresses(), replyAll);
+    if (to.length === 0) {
+      throw new Error('Could not determine reply recipients from the original email');
+    }
+
+    let textBody = replyData.textBody || '';
+    let htmlBody = replyData.htmlBody;
+
+    if (replyData.quoteOriginal !== false) {
+      const sender = (original.from || []).map(formatAddress).join(', ');
+      const attribution = `On ${original.sentAt || original.receivedAt}, ${sender} wrote:`;
+      const quotedText = this.getEmailText(original)
+        .split('\n')
+        .map(line => `> ${line}`)
+        .join('\n');
+
+      textBody = `${textBody}\n\n${attribution}\n${quotedText}`;
+      if (htmlBody) {
+        htmlBody = `${htmlBody}<br><br>${textToHtml(attribution)}<blockquote>${textToHtml(this.getEmailText(original))}</blockquote>`;
+      }
+    }
+
+    // Reply from the address the original was sent to, when it's one of ours
+    let fromIdentity = replyData.fromIdentity;
+    if (!fromIdentity) {
+      fromIdentity = [...(original.to || []), ...(original.cc || [])]
+        .map((address: any) => address.email)
+        .find((email: string) => email && this.identityCache.some(id => !id.email?.startsWith('*@') && this.identityMatches(id, email)));
+    }
+
+    const messageIds: string[] = original.messageId || [];
+    return this.sendEmail({
+      to,
+      cc: [...cc, ...(replyData.cc || [])],
+      bcc: replyData.bcc,
+      subject: prefixSubject('Re', original.subject),
+      textBody,
+      htmlBody,
+      inReplyTo: messageIds[0],
+      references: [...(original.references || []), ...messageIds],
+      attachments: replyData.attachments,
+      fromIdentity,
+    });
+  }
+
+  async forwardEmail(emailId: string, forwardData: {
+    to: string[];
+    cc?: string[];
+    bcc?: string[];
+    textBody?: string;
+    htmlBody?: string;
+    attachments?: EmailAttachment[];
+    includeAttachments?: boolean;
+    fromIdentity?: string;
+  }): Promise<any> {
+    const emailResult = await this.getEmailById(emailId);
+    const original = emailResult.list?.[0];
+    if (!original) {
+      throw new Error(`Email "${emailId}" not found`);
+    }
+
+    const forwardedHeader = [
+      '---------- Forwarded message ----------',
+      `From: ${(original.from || []).map(formatAddress).join(', ')}`,
+      `Date: ${original.sentAt || original.receivedAt}`,
+      `Subject: ${original.subject || ''}`,
+      `To: ${(original.to || []).map(formatAddress).join(', ')}`,
+      ...(original.cc && original.cc.length > 0 ? [`Cc: ${original.cc.map(formatAddress).join(', ')}`] : []),
+    ].join('\n');
+    const originalText = this.getEmailText(original);
+
+    const textBody = `${forwardData.textBody || ''}\n\n${forwardedHeader}\n\n${originalText}`;
+    let htmlBody = forwardData.htmlBody;
+    if (htmlBody) {
+      htmlBody = `${htmlBody}<br><br>${textToHtml(forwardedHeader)}<br><br>${textToHtml(originalText)}`;
+    }
+
+    // Re-attach the original attachments by blobId, no re-upload needed
+    const originalAttachments: EmailAttachment[] = forwardData.includeAttachments === false
+      ? []
+      : (original.attachments || []).map((attachment: any) => ({
+        blobId: attachment.blobId,
+        name: attachment.name || undefined,
+        type: attachment.type,
+      }));
+
+    return this.sendEmail({
+      to: forwardData.to,
+      cc: forwardData.cc,
+      bcc: forwardData.bcc,
+      subject: prefixSubject('Fwd', original.subject),
+      textBody,
+      htmlBody,
+      attachments: [...originalAttachments, ...(forwardData.attachments || [])],
+      fromIdentity: forwardData.fromIdentity,
+    });
+  }
+
+  async markAsRead(emailIds: string[]): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        update: Object.fromEntries(
+          emailIds.map(id => [id, { 'keywords/$seen': true }])
+        )
+      }, 'markRead']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async markAsUnread(emailIds: string[]): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        update: Object.fromEntries(
+          emailIds.map(id => [id, { 'keywords/$seen': null }])
+        )
+      }, 'markUnread']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async setKeywords(emailIds: string[], add: string[] = [], remove: string[] = []): Promise<any> {
+    if (add.length === 0 && remove.length === 0) {
+      throw new Error('Specify at least one keyword to add or remove');
+    }
+
+    const patch: any = {};
+    for (const [keywords, value] of [[add, true], [remove, null]] as const) {
+      for (const keyword of keywords) {
+        // Keywords follow IMAP flag syntax: printable ASCII without ( ) { ] % * " \ or spaces
+        if (!/^[\x21-\x7e]+$/.test(keyword) || /[(){\]%*"\\]/.test(keyword)) {
+          throw new Error(`Invalid keyword "${keyword}". Keywords may not contain spaces or any of ( ) { ] % * " \\`);
+        }
+        // Escape for the JSON Pointer patch path
+        patch[`keywords/${keyword.toLowerCase().replace(/~/g, '~0').replace(/\//g, '~1')}`] = value;
+      }
+    }
+
+    const response = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        update: Object.fromEntries(
+          emailIds.map(id => [id, patch])
+        )
+      }, 'setKeywords']
+    ]);
+
+    return {
+      added: add.map(keyword => keyword.toLowerCase()),
+      removed: remove.map(keyword => keyword.toLowerCase()),
+      ...this.summarizeSetResult(emailIds, response.methodResponses[0][1]),
+    };
+  }
+
+  async flagEmails(emailIds: string[], flagged: boolean = true): Promise<any> {
+    return flagged
+      ? this.setKeywords(emailIds, ['$flagged'])
+      : this.setKeywords(emailIds, [], ['$flagged']);
+  }
+
+  async listKeywords(mailbox?: string, limit: number = 500): Promise<any> {
+    const filter: any = {};
+    if (mailbox) {
+      filter.inMailbox = await this.resolveMailboxId(mailbox);
+    }
+
+    const response = await this.jmapRequest([
+      ['Email/query', {
+        accountId: this.session?.accountId,
+        filter,
+        sort: [{ property: 'receivedAt', isAscending: false }],
+        limit,
+      }, 'query'],
+      ['Email/get', {
+        accountId: this.session?.accountId,
+        '#ids': {
+          resultOf: 'query',
+          name: 'Email/query',
+          path: '/ids',
+        },
+        properties: ['id', 'keywords'],
+      }, 'emails'],
+    ]);
+
+    const emails = response.methodResponses[1][1].list || [];
+    const counts: { [keyword: string]: number } = {};
+    for (const email of emails) {
+      for (const keyword of Object.keys(email.keywords || {})) {
+        counts[keyword] = (counts[keyword] || 0) + 1;
+      }
+    }
+
+    return {
+      mailboxUsed: filter.inMailbox || 'all',
+      emailsScanned: emails.length,
+      keywords: Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .map(([keyword, count]) => ({ keyword, count })),
+    };
+  }
+
+  async bulkUpdateEmails(criteria: EmailSearchCriteria, action: BulkEmailAction, options: {
+    mailbox?: string;
+    dryRun?: boolean;
+    maxEmails?: number;
+  } = {}): Promise<any> {
+    const validActions: BulkEmailAction[] = ['mark_read', 'mark_unread', 'flag', 'unflag', 'move', 'archive', 'trash'];
+    if (!validActions.includes(action)) {
+      throw new Error(`Invalid action "${action}". Use one of: ${validActions.join(', ')}`);
+    }
+    if (action === 'move' && !options.mailbox) {
+      throw new Error('The move action requires a target mailbox');
+    }
+
+    const filter = await this.buildSearchFilter(criteria);
+    const maxEmails = options.maxEmails ?? 1000;
+    if (!this.session) {
+      await this.getSession();
+    }
+    const { maxObjectsInGet, maxObjectsInSet } = this.session!.limits;
+    const batchSize = Math.min(maxObjectsInGet, maxObjectsInSet);
+
+    if (options.dryRun) {
+      const response = await this.jmapRequest([
+        ['Email/query', {
+          accountId: this.session?.accountId,
+          filter,
+          sort: [{ property: 'receivedAt', isAscending: false }],
+          limit: 10,
+          calculateTotal: true,
+        }, 'query'],
+        ['Email/get', {
+          accountId: this.session?.accountId,
+          '#ids': {
+            resultOf: 'query',
+            name: 'Email/query',
+            path: '/ids',
+          },
+          properties: ['id', 'subject', 'from', 'receivedAt', 'keywords', 'mailboxIds'],
+        }, 'sample'],
+      ]);
+
+      const total = response.methodResponses[0][1].total;
+      return {
+        dryRun: true,
+        action,
+        filter,
+        matched: total,
+        wouldProcess: Math.min(total ?? 0, maxEmails),
+        sample: response.methodResponses[1][1].list || [],
+      };
+    }
+
+    // Resolve the target before touching anything
+    let targetMailboxId: string | null = null;
+    if (action === 'move') {
+      targetMailboxId = await this.resolveMailboxId(options.mailbox!);
+    } else if (action === 'archive') {
+      const archiveMailbox = await this.findMailboxByRole('archive');
+      if (!archiveMailbox) {
+        throw new Error('No Archive mailbox found');
+      }
+      targetMailboxId = archiveMailbox.id;
+    } else if (action === 'trash') {
+      // Bulk trash only moves; nothing is destroyed permanently
+      const trashMailbox = await this.findMailboxByRole('trash');
+      if (!trashMailbox) {
+        throw new Error('No Trash mailbox found');
+      }
+      targetMailboxId = trashMailbox.id;
+    }
+
+    // Snapshot the matching IDs first: most actions change whether an email
+    // still matches the filter, which would shift positions between pages.
+    // Patches can't take back-references for their keys, so ids are needed anyway.
+    const emailIds: string[] = [];
+    let total: number | undefined;
+    while (emailIds.length < maxEmails) {
+      const response = await this.jmapRequest([
+        ['Email/query', {
+          accountId: this.session?.accountId,
+          filter,
+          sort: [{ property: 'receivedAt', isAscending: false }],
+          position: emailIds.length,
+          limit: Math.min(batchSize, maxEmails - emailIds.length),
+          calculateTotal: true,
+        }, 'query'],
+      ]);
+
+      const queryResult = response.methodResponses[0][1];
+      total = queryResult.total;
+      emailIds.push(...(queryResult.ids || []));
+      if (!queryResult.ids || queryResult.ids.length === 0 || (total !== undefined && emailIds.length >= total)) {
+        break;
+      }
+    }
+
+    const batches: any[] = [];
+    const failed: any[] = [];
+    let succeeded = 0;
+
+    for (let i = 0; i < emailIds.length; i += batchSize) {
+      const chunk = emailIds.slice(i, i + batchSize);
+      let result: any;
+
+      switch (action) {
+        case 'mark_read':
+          result = await this.setKeywords(chunk, ['$seen']);
+          break;
+        case 'mark_unread':
+          result = await this.setKeywords(chunk, [], ['$seen']);
+          break;
+        case 'flag':
+          result = await this.setKeywords(chunk, ['$flagged']);
+          break;
+        case 'unflag':
+          result = await this.setKeywords(chunk, [], ['$flagged']);
+          break;
+        case 'move':
+        case 'archive':
+        case 'trash':
+          result = await this.moveEmailsToMailbox(chunk, targetMailboxId!);
+          break;
+      }
+
+      succeeded += result.succeeded.length;
+      failed.push(...result.failed);
+      batches.push({
+        batch: batches.length + 1,
+        size: chunk.length,
+        succeeded: result.succeeded.length,
+        failed: result.failed.length,
+      });
+    }
+
+    return {
+      action,
+      filter,
+      matched: total ?? emailIds.length,
+      processed: emailIds.length,
+      succeeded,
+      failed,
+      batches,
+      truncated: total !== undefined && total > emailIds.length,
+    };
+  }
+
+  private async moveEmailsToMailbox(emailIds: string[], targetMailboxId: string, options: {
+    keepExisting?: boolean;  // Add the target mailbox without leaving the current ones
+    onlyFrom?: string;       // Only move emails currently in this mailbox
+    extraPatch?: any;        // Additional patch (e.g. keywords) applied to every email
+  } = {}): Promise<any> {
+    // Fetch current mailboxes so each email gets a precise mailboxIds patch
+    const getResult = await this.getInBatches('Email', emailIds, ['id', 'mailboxIds']);
+    const update: any = {};
+    for (const email of getResult.list || []) {
+      const currentMailboxIds = Object.keys(email.mailboxIds || {});
+      const patch: any = { ...(options.extraPatch || {}) };
+
+      if (!options.onlyFrom || currentMailboxIds.includes(options.onlyFrom)) {
+        patch[`mailboxIds/${targetMailboxId}`] = true;
+        if (!options.keepExisting) {
+          for (const mailboxId of currentMailboxIds) {
+            if (mailboxId !== targetMailboxId && (!options.onlyFrom || mailboxId === options.onlyFrom)) {
+              patch[`mailboxIds/${mailboxId}`] = null;
+            }
+          }
+        }
+      }
+
+      if (Object.keys(patch).length > 0) {
+        update[email.id] = patch;
+      }
+    }
+
+    let setResult: any = { updated: {}, notUpdated: {} };
+    if (Object.keys(update).length > 0) {
+      const setResponse = await this.jmapRequest([
+        ['Email/set', {
+          accountId: this.session?.accountId,
+          update,
+        }, options.keepExisting ? 'copy' : 'move']
+      ]);
+      setResult = setResponse.methodResponses[0][1];
+    }
+
+    for (const id of getResult.notFound || []) {
+      setResult.notUpdated = { ...(setResult.notUpdated || {}), [id]: { type: 'notFound' } };
+    }
+
+    const mailbox = this.mailboxCache.find(mb => mb.id === targetMailboxId);
+    return {
+      targetMailbox: { id: targetMailboxId, name: mailbox?.name || targetMailboxId, role: mailbox?.role || null },
+      ...this.summarizeSetResult(emailIds, setResult),
+    };
+  }
+
+  async moveEmails(emailIds: string[], mailbox: string): Promise<any> {
+    const targetMailboxId = await this.resolveMailboxId(mailbox);
+    return this.moveEmailsToMailbox(emailIds, targetMailboxId);
+  }
+
+  async copyEmails(emailIds: string[], mailbox: string): Promise<any> {
+    // JMAP messages can live in several mailboxes, so copying adds the target mailbox
+    const targetMailboxId = await this.resolveMailboxId(mailbox);
+    return this.moveEmailsToMailbox(emailIds, targetMailboxId, { keepExisting: true });
+  }
+
+  async archiveEmails(emailIds: string[]): Promise<any> {
+    const archiveMailbox = await this.findMailboxByRole('archive');
+    if (!archiveMailbox) {
+      throw new Error(`No Archive mailbox found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
+    }
+    return this.moveEmailsToMailbox(emailIds, archiveMailbox.id);
+  }
+
+  private async destroyEmails(emailIds: string[]): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Email/set', {
+        accountId: this.session?.accountId,
+        destroy: emailIds,
+      }, 'destroy']
+    ]);
+
+    return this.summarizeSetResult(emailIds, response.methodResponses[0][1], 'destroyed');
+  }
+
+  async reportSpam(emailIds: string[]): Promise<any> {
+    const junkMailbox = await this.findMailboxByRole('junk');
+    if (!junkMailbox) {
+      throw new Error(`No Junk mailbox found. Available mailboxes: ${this.mailboxCache.map(mb => mb.name).join(', ')}`);
+    }
+
+    // Keywords and the move go out in a single Email/set
+    return this.moveEmailsToMailbox(emailIds, junkMailbox.id, {
+      extraPatch: { 'keywords/$junk': true, 'keywords/$notjunk': null },
+    });
+  }
+
+  async reportNotSpam(emailIds: string[]): Promise<any> {
+    const inboxMailbox = await this.findMailboxByRole('inbox');
+    if (!inboxMailbox) {
+      throw new Error('No Inbox mailbox found');
+    }
+    const junkMailbox = await this.findMailboxByRole('junk');
+
+    // Without a Junk mailbox there is nothing to move out of, so leave the mailboxes alone
+    if (!junkMailbox) {
+      return this.setKeywords(emailIds, ['$notjunk'], ['$junk']);
+    }
+
+    // Only emails sitting in Junk are moved back to the Inbox; all get $notjunk
+    return this.moveEmailsToMailbox(emailIds, inboxMailbox.id, {
+      onlyFrom: junkMailbox.id,
+      extraPatch: { 'keywords/$notjunk': true, 'keywords/$junk': null },
+    });
+  }
+
+  async deleteEmails(emailIds: string[], permanent: boolean = false): Promise<any> {
+    if (permanent) {
+      return {
+        movedToTrash: { succeeded: [], failed: [] },
+        destroyed: await this.destroyEmails(emailIds),
+      };
+    }
+
+    const trashMailbox = await this.findMailboxByRole('trash');
+    if (!trashMailbox) {
+      throw new Error('No Trash mailbox found. Use permanent: true to delete emails permanently');
+    }
+
+    // Emails already in Trash are destroyed, everything else is moved there
+    const { list: emails } = await this.getInBatches('Email', emailIds, ['id', 'mailboxIds']);
+    const inTrash = emails
+      .filter((email: any) => Object.keys(email.mailboxIds || {}).every(id => id === trashMailbox.id))
+      .map((email: any) => email.id);
+    const toMove = emailIds.filter(id => !inTrash.includes(id));
+
+    const movedToTrash = toMove.length > 0
+      ? await this.moveEmailsToMailbox(toMove, trashMailbox.id)
+      : { succeeded: [], failed: [] };
+    const destroyed = inTrash.length > 0
+      ? await this.destroyEmails(inTrash)
+      : { succeeded: [], failed: [] };
+
+    return { movedToTrash, destroyed };
+  }
+
+  async emptyMailbox(mailbox: string): Promise<any> {
+    const mailboxId = await this.resolveExactMailboxId(mailbox, 'empty');
+    const mailboxInfo = this.mailboxCache.find(mb => mb.id === mailboxId);
+    const { maxObjectsInGet, maxObjectsInSet } = this.session!.limits;
+    const batchSize = Math.min(maxObjectsInGet, maxObjectsInSet);
+
+    const batches: any[] = [];
+    const failed: any[] = [];
+    let destroyedCount = 0;
+    let removedCount = 0;
+
+    // Always query from the top (skipping failures) since each batch shrinks the mailbox.
+    // Oldest first keeps earlier failures ahead of unprocessed emails, even as new mail arrives.
+    while (true) {
+      const response = await this.jmapRequest([
+        ['Email/query', {
+          accountId: this.session?.accountId,
+          filter: { inMailbox: mailboxId },
+          sort: [{ property: 'receivedAt', isAscending: true }],
+          position: failed.length,
+          limit: batchSize,
+        }, 'query'],
+        ['Email/get', {
+          accountId: this.session?.accountId,
+          '#ids': {
+            resultOf: 'query',
+            name: 'Email/query',
+            path: '/ids',
+          },
+          properties: ['id', 'mailboxIds'],
+        }, 'emails'],
+      ]);
+
+      const failedIds = new Set(failed.map(failure => failure.id));
+      const emails = (response.methodResponses[1][1].list || []).filter((email: any) => !failedIds.has(email.id));
+      if (emails.length === 0) {
+        break;
+      }
+
+      // Emails also filed elsewhere only leave this mailbox instead of being destroyed
+      const destroy: string[] = emails
+        .filter((email: any) => Object.keys(email.mailboxIds || {}).every(id => id === mailboxId))
+        .map((email: any) => email.id);
+      const unlink: string[] = emails
+        .filter((email: any) => !destroy.includes(email.id))
+        .map((email: any) => email.id);
+
+      const setResponse = await this.jmapRequest([
+        ['Email/set', {
+          accountId: this.session?.accountId,
+          update: Object.fromEntries(
+            unlink.map(id => [id, { [`mailboxIds/${mailboxId}`]: null }])
+          ),
+          destroy,
+        }, 'empty']
+      ]);
+
+      const setResult = setResponse.methodResponses[0][1];
+      const destroyedResult = this.summarizeSetResult(destroy, setResult, 'destroyed');
+      const removedResult = this.summarizeSetResult(unlink, setResult, 'updated');
+
+      destroyedCount += destroyedResult.succeeded.length;
+      removedCount += removedResult.succeeded.length;
+      failed.push(...destroyedResult.failed, ...removedResult.failed);
+      batches.push({
+        batch: batches.length + 1,
+        destroyed: destroyedResult.succeeded.length,
+        removedFromMailbox: removedResult.succeeded.length,
+        failed: destroyedResult.failed.length + removedResult.failed.length,
+      });
+
+      // Stop if nothing in this batch could be processed
+      if (destroyedResult.succeeded.length + removedResult.succeeded.length === 0) {
+        break;
+      }
+    }
+
+    return {
+      mailbox: { id: mailboxId, name: mailboxInfo?.name || mailboxId, role: mailboxInfo?.role || null },
+      destroyed: destroyedCount,
+      removedFromMailbox: removedCount,
+      failed,
+      batches,
+    };
+  }
+
+  async emptyTrash(): Promise<any> {
+    const trashMailbox = await this.findMailboxByRole('trash');
+    if (!trashMailbox) {
+      throw new Error('No Trash mailbox found');
+    }
+    return this.emptyMailbox(trashMailbox.id);
+  }
+
+  // Calendar methods
+  async getCalendars(): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Calendar/get', {
+        accountId: this.session!.accountId,
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async getCalendarEvents(calendarId?: string, limit: number = 50, page: PageCursor = {}, range: { after?: string; before?: string } = {}): Promise<any> {
+    const filter: any = {};
+    if (calendarId) {
+      filter.inCalendar = calendarId;
+    }
+    if (range.after) {
+      filter.after = range.after;
+    }
+    if (range.before) {
+      filter.before = range.before;
+    }
+
+    const response = await this.jmapRequest([
+      ['CalendarEvent/query', {
+        accountId: this.session!.accountId,
+        filter,
+        limit,
+        ...pageQueryArgs(page),
+        sort: [{ property: 'start', isAscending: false }],
+      }, 'a'],
+      ['CalendarEvent/get', {
+        accountId: this.session!.accountId,
+        '#ids': {
+          resultOf: 'a',
+          name: 'CalendarEvent/query',
+          path: '/ids',
+        },
+        properties: ['id', 'title', 'description', 'start', 'end', 'duration', 'calendarId', 'location', 'participants', 'status', 'showWithoutTime'],
+      }, 'b']
+    ]);
+
+    return {
+      queryResult: response.methodResponses[0][1],
+      eventsResult: response.methodResponses[1][1],
+      pagination: paginationInfo(response.methodResponses[0][1], limit)
+    };
+  }
+
+  async createCalendarEvent(eventData: {
+    calendarId: string;
+    title: string;
+    description?: string;
+    start: string;
+    end: string;
+    location?: string;
+    participants?: string[];
+    showWithoutTime?: boolean;
+  }): Promise<any> {
+    const event = {
+      calendarId: eventData.calendarId,
+      title: eventData.title,
+      description: eventData.description || '',
+      start: eventData.start,
+      end: eventData.end,
+      location: eventData.location || '',
+      showWithoutTime: eventData.showWithoutTime || false,
+      participants: eventData.participants ? eventData.participants.map(email => ({
+        email,
+        role: 'attendee',
+        participationStatus: 'needs-action',
+      })) : [],
+    };
+
+    const response = await this.jmapRequest([
+      ['CalendarEvent/set', {
+        accountId: this.session!.accountId,
+        create: {
+          tempId: event,
+        },
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async updateCalendarEvent(eventId: string, updates: {
+    title?: string;
+    description?: string;
+    start?: string;
+    end?: string;
+    location?: string;
+    participants?: string[];
+  }): Promise<any> {
+    const updateData: any = {};
+    if (updates.title !== undefined) updateData.title = updates.title;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.start !== undefined) updateData.start = updates.start;
+    if (updates.end !== undefined) updateData.end = updates.end;
+    if (updates.location !== undefined) updateData.location = updates.location;
+    if (updates.participants !== undefined) {
+      updateData.participants = updates.participants.map(email => ({
+        email,
+        role: 'attendee',
+        participationStatus: 'needs-action',
+      }));
+    }
+
+    const response = await this.jmapRequest([
+      ['CalendarEvent/set', {
+        accountId: this.session!.accountId,
+        update: {
+          [eventId]: updateData,
+        },
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async getCalendarEventById(eventId: string): Promise<any> {
+    const response = await this.jmapRequest([
+      ['CalendarEvent/get', {
+        accountId: this.session!.accountId,
+        ids: [eventId],
+        properties: ['id', 'title', 'description', 'start', 'end', 'duration', 'calendarId', 'location', 'participants', 'status', 'showWithoutTime'],
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async deleteCalendarEvent(eventId: string): Promise<any> {
+    const response = await this.jmapRequest([
+      ['CalendarEvent/set', {
+        accountId: this.session!.accountId,
+        destroy: [eventId],
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  // Contact methods
+  async getAddressBooks(): Promise<any> {
+    const response = await this.jmapRequest([
+      ['AddressBook/get', {
+        accountId: this.session!.accountId,
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async getContacts(addressBookId?: string, limit: number = 50, page: PageCursor = {}): Promise<any> {
+    const filter: any = {};
+    if (addressBookId) {
+      filter.inAddressBook = addressBookId;
+    }
+
+    const response = await this.jmapRequest([
+      ['Contact/query', {
+        accountId: this.session!.accountId,
+        filter,
+        limit,
+        ...pageQueryArgs(page),
+        sort: [{ property: 'lastName', isAscending: true }],
+      }, 'a'],
+      ['Contact/get', {
+        accountId: this.session!.accountId,
+        '#ids': {
+          resultOf: 'a',
+          name: 'Contact/query',
+          path: '/ids',
+        },
+        properties: ['id', 'firstName', 'lastName', 'emails', 'phones', 'addresses', 'company', 'jobTitle', 'notes', 'addressBookId'],
+      }, 'b']
+    ]);
+
+    return {
+      queryResult: response.methodResponses[0][1],
+      contactsResult: response.methodResponses[1][1],
+      pagination: paginationInfo(response.methodResponses[0][1], limit)
+    };
+  }
+
+  async getContactById(contactId: string): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Contact/get', {
+        accountId: this.session!.accountId,
+        ids: [contactId],
+        properties: ['id', 'firstName', 'lastName', 'emails', 'phones', 'addresses', 'company', 'jobTitle', 'notes', 'addressBookId'],
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async searchContacts(query: string, limit: number = 20): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Contact/query', {
+        accountId: this.session!.accountId,
+        filter: {
+          text: query,
+        },
+        limit,
+        sort: [{ property: 'lastName', isAscending: true }],
+      }, 'a'],
+      ['Contact/get', {
+        accountId: this.session!.accountId,
+        '#ids': {
+          resultOf: 'a',
+          name: 'Contact/query',
+          path: '/ids',
+        },
+        properties: ['id', 'firstName', 'lastName', 'emails', 'phones', 'addresses', 'company', 'jobTitle', 'notes', 'addressBookId'],
+      }, 'b']
+    ]);
+
+    return {
+      queryResult: response.methodResponses[0][1],
+      contactsResult: response.methodResponses[1][1]
+    };
+  }
+
+  async createContact(contactData: {
+    addressBookId: string;
+    firstName?: string;
+    lastName?: string;
+    emails?: { type: string; value: string }[];
+    phones?: { type: string; value: string }[];
+    addresses?: { type: string; street?: string; city?: string; state?: string; country?: string; postalCode?: string }[];
+    company?: string;
+    jobTitle?: string;
+    notes?: string;
+  }): Promise<any> {
+    const contact = {
+      addressBookId: contactData.addressBookId,
+      firstName: contactData.firstName || '',
+      lastName: contactData.lastName || '',
+      emails: contactData.emails || [],
+      phones: contactData.phones || [],
+      addresses: contactData.addresses || [],
+      company: contactData.company || '',
+      jobTitle: contactData.jobTitle || '',
+      notes: contactData.notes || '',
+    };
+
+    const response = await this.jmapRequest([
+      ['Contact/set', {
+        accountId: this.session!.accountId,
+        create: {
+          tempId: contact,
+        },
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async updateContact(contactId: string, updates: {
+    firstName?: string;
+    lastName?: string;
+    emails?: { type: string; value: string }[];
+    phones?: { type: string; value: string }[];
+    addresses?: { type: string; street?: string; city?: string; state?: string; country?: string; postalCode?: string }[];
+    company?: string;
+    jobTitle?: string;
+    notes?: string;
+  }): Promise<any> {
+    const updateData: any = {};
+    Object.keys(updates).forEach(key => {
+      if ((updates as any)[key] !== undefined) {
+        updateData[key] = (updates as any)[key];
+      }
+    });
+
+    const response = await this.jmapRequest([
+      ['Contact/set', {
+        accountId: this.session!.accountId,
+        update: {
+          [contactId]: updateData,
+        },
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+
+  async deleteContact(contactId: string): Promise<any> {
+    const response = await this.jmapRequest([
+      ['Contact/set', {
+        accountId: this.session!.accountId,
+        destroy: [contactId],
+      }, 'a']
+    ]);
+
+    return response.methodResponses[0][1];
+  }
+}
+
+class JmapMCPServer {
+  private server: Server;
+  private client: JmapJMAPClient | null = null;
+  private initPromise: Promise<void>;
+  private isInitialized: boolean = false;
+  private subscriptions: Set<string> = new Set();
+  private profiles: { [name: string]: JmapConfig } = {};
+  private activeProfile: string = 'default';
+  private clients: Map<string, JmapJMAPClient> = new Map();  // Connected clients by profile
+  private oauthLogins: Map<string, JmapOAuth> = new Map();  // OAuth logins in progress by profile
+  private allowSecretArguments: boolean = false;  // Whether connect_jmap may take a password or token
+
+  constructor() {
+    this.server = new Server(
+      {
+        name: 'jmap-server',
+        version: '0.1.0',
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+        },
+      }
+    );
+
+    // Initialize connection asynchronously
+    this.initPromise = this.initializeFromEnv();
+    this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+  }
+
+  private async initializeFromEnv(): Promise<void> {
+    try {
+      console.error('=== MCP Server Initialization ===');
+      console.error('Environment variables check:');
+      console.error(`JMAP_BASE_URL: ${process.env.JMAP_BASE_URL ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_USERNAME: ${process.env.JMAP_USERNAME ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_PASSWORD: ${process.env.JMAP_PASSWORD ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_PASSWORD_COMMAND: ${process.env.JMAP_PASSWORD_COMMAND ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_PASSWORD_FILE: ${process.env.JMAP_PASSWORD_FILE ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_TOKEN: ${process.env.JMAP_TOKEN ? 'SET' : 'NOT SET'}`);
+      console.error(`JMAP_ACCOUNT_ID: ${process.env.JMAP_ACCOUNT_ID ? 'SET' : 'NOT SET'}`);
+      
+      let config: JmapConfig | null = null;
+      let fileConfig: any = null;
+
+      // Try to create default config from environment variables first
+      config = createDefaultConfig();
+      
+      if (config) {
+        console.error('✅ Using environment variables for configuration');
+        console.error(`Base URL: ${config.baseUrl}`);
+        console.error(`Username: ${config.username || '(token)'}`);
+        if (config.accountId) {
+          console.error(`Account ID: ${config.accountId}`);
+        }
+      } else {
+        console.error('❌ Environment variables not complete, using config file profiles');
+      }
+
+      // The config file is read either way so its profiles stay reachable alongside the environment
+      const configPaths = [
+        process.env.JMAP_CONFIG_PATH,
+        resolve(process.cwd(), 'jmap-config.json'),
+        resolve(process.env.HOME || '~', '.jmap-config.json'),
+      ].filter(Boolean) as string[];
+
+      for (const configPath of configPaths) {
+        if (existsSync(configPath)) {
+          try {
+            const configData = readFileSync(configPath, 'utf8');
+            fileConfig = JSON.parse(configData);
+            console.error(`Loaded config from ${configPath}`);
+            break;
+          } catch (error) {
+            console.error(`Failed to read config from ${configPath}: ${error}`);
+          }
+        }
+      }
+
+      // A config file may hold named profiles; a single config becomes the "default" profile
+      let defaultProfile = 'default';
+      const fileProfiles: { [name: string]: JmapConfig } = fileConfig?.profiles
+        || (fileConfig ? { default: fileConfig } : {});
+      this.profiles = {};
+      for (const [name, profileConfig] of Object.entries(fileProfiles)) {
+        try {
+          this.profiles[name] = normalizeConfig(profileConfig, `profile "${name}"`);
+        } catch (error) {
+          console.error(`❌ Skipping profile "${name}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (fileConfig?.profiles) {
+        defaultProfile = fileConfig.defaultProfile || Object.keys(this.profiles)[0] || defaultProfile;
+      }
+
+      // Environment variables take precedence as the "default" profile
+      if (config) {
+        this.profiles.default = config;
+        defaultProfile = 'default';
+      }
+      if (Object.keys(this.profiles).length > 1) {
+        console.error(`Profiles: ${Object.keys(this.profiles).join(', ')}`);
+      }
+      this.activeProfile = process.env.JMAP_PROFILE || defaultProfile;
+
+      // Secrets passed to connect_jmap end up in the model transcript, so they are opt-in
+      this.allowSecretArguments = process.env.JMAP_ALLOW_PASSWORD_ARGUMENTS === 'true' || fileConfig?.allowPasswordArguments === true;
+      config = this.profiles[this.activeProfile] || null;
+
+      if (config && hasCredentials(config)) {
+        console.error(`Attempting connection to ${config.baseUrl} as ${config.username || 'token user'} (profile "${this.activeProfile}")`);
+        const client = new JmapJMAPClient(config);
+        this.client = client;
+        try {
+          // Test connection
+          await client.getMailboxes();
+          this.clients.set(this.activeProfile, this.client);
+          this.isInitialized = true;
+          console.error(`✅ Auto-connected to Jmap Mail server at ${config.baseUrl} as ${config.username || 'token user'}`);
+        } catch (error) {
+          console.error(`❌ Failed to auto-connect to Jmap server: ${error instanceof Error ? error.message : String(error)}`);
+          if (isNetworkError(error) && client.hasOfflineCache()) {
+            // Serve from the local cache; requests reconnect once the server is reachable again
+            console.error('Starting offline with the local email cache');
+            this.clients.set(this.activeProfile, client);
+            this.isInitialized = true;
+          } else {
+            this.client = null;
+            this.isInitialized = false;
+          }
+        }
+      } else {
+        console.error('❌ No valid configuration found');
+        this.isInitialized = false;
+      }
+    } catch (error) {
+      console.error(`❌ Initialization error: ${error}`);
+      this.isInitialized = false;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    await this.initPromise;
+  }
+
+  private setupToolHandlers() {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      await this.ensureInitialized();
+
+      return {
+        tools: [
+          {
+            name: 'list_profiles',
+            description: 'List the server profiles from the config file and which one is active',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'switch_profile',
+            description: 'Make another config profile the active one for subsequent tool calls',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                profile: {
+                  type: 'string',
+                  description: 'Name of the profile to switch to',
+                },
+              },
+              required: ['profile'],
+            },
+          },
+          {
+            name: 'list_accounts',
+            description: 'List the accounts available in this session, including shared and delegated mailboxes. Pass an account\'s ID or name as accountId to any other tool to use it.',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'get_server_info',
+            description: 'Show the JMAP server\'s supported capabilities (mail, submission, calendars, contacts, push) and limits',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'connect_jmap',
+            description: 'Connect to Jmap Mail server using JMAP, Calling this function is completely optional as connection to jmap server actually is automaticly done by default. Without a password or token, the profile\'s configured credentials (passwordCommand, passwordFile, token or OAuth) are used',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                baseUrl: {
+                  type: 'string',
+                  description: 'Base URL of the Jmap Mail server (e.g., https://mail.example.com; default: the profile\'s configured server)',
+                },
+                username: {
+                  type: 'string',
+                  description: 'Username/email for authentication',
+                },
+                // Secrets in tool arguments end up in the transcript, so they are only offered when allowed
+                ...(this.allowSecretArguments ? {
+                  password: {
+                    type: 'string',
+                    description: 'Password for authentication',
+                  },
+                  token: {
+                    type: 'string',
+                    description: 'Bearer token to use instead of username/password',
+                  },
+                } : {}),
+                profile: {
+                  type: 'string',
+                  description: 'Profile name to store this connection under (default: the active profile)',
+                },
+              },
+            },
+          },
+          {
+            name: 'oauth_login',
+            description: 'Sign in to a profile configured with authType "oauth". Starts a device login (returns a code to enter at a URL) or returns an authorization URL; after approving that URL, call again with the code or the full redirect URL.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                code: {
+                  type: 'string',
+                  description: 'Authorization code or redirect URL from the authorization-code flow',
+                },
+                profile: {
+                  type: 'string',
+                  description: 'Profile to sign in (default: the active profile)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_mailboxes',
+            description: 'Get all mailboxes from the mail server as a folder tree with roles, IDs and unread/total counts',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'create_mailbox',
+            description: 'Create a new mailbox (folder), optionally inside another mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name of the new mailbox',
+                },
+                parent: {
+                  type: 'string',
+                  description: 'Parent mailbox name or ID. Omit to create a top-level mailbox',
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'rename_mailbox',
+            description: 'Rename a mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailbox: {
+                  type: 'string',
+                  description: 'Exact mailbox name or ID to rename',
+                },
+                newName: {
+                  type: 'string',
+                  description: 'New mailbox name',
+                },
+              },
+              required: ['mailbox', 'newName'],
+            },
+          },
+          {
+            name: 'move_mailbox',
+            description: 'Move a mailbox under a different parent mailbox, or to the top level',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailbox: {
+                  type: 'string',
+                  description: 'Exact mailbox name or ID to move',
+                },
+                parent: {
+                  type: 'string',
+                  description: 'New parent mailbox name or ID. Omit (or use "root") to move to the top level',
+                },
+              },
+              required: ['mailbox'],
+            },
+          },
+          {
+            name: 'delete_mailbox',
+            description: 'Delete a mailbox. Fails if it still contains emails unless onDestroyRemoveEmails is true',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailbox: {
+                  type: 'string',
+                  description: 'Exact mailbox name or ID to delete',
+                },
+                onDestroyRemoveEmails: {
+                  type: 'boolean',
+                  description: 'Also remove the emails in it; emails only in this mailbox are destroyed (default: false)',
+                },
+              },
+              required: ['mailbox'],
+            },
+          },
+          {
+            name: 'get_identities',
+            description: 'Get the sending identities (From addresses) available for this account',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'get_emails',
+            description: 'Get emails from a mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailboxId: {
+                  type: 'string',
+                  description: 'Mailbox ID or name (e.g., "Inbox", "Sent", "M001abc123"). If not specified, gets all emails.',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of emails to retrieve (default: 50)',
+                },
+                position: {
+                  type: 'number',
+                  description: 'Zero-based index of the first result to return (default: 0). Use pagination.nextPosition from the previous page',
+                },
+                anchor: {
+                  type: 'string',
+                  description: 'ID to page from, stable while new items arrive. Use pagination.nextAnchor from the previous page (takes precedence over position)',
+                },
+                anchorOffset: {
+                  type: 'number',
+                  description: 'Offset from the anchor of the first result (use pagination.nextAnchorOffset, normally 1)',
+                },
+                collapseThreads: {
+                  type: 'boolean',
+                  description: 'Return only the latest email from each thread (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_email_by_id',
+            description: 'Get a specific email by its ID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailId: {
+                  type: 'string',
+                  description: 'Email ID',
+                },
+              },
+              required: ['emailId'],
+            },
+          },
+          {
+            name: 'get_thread',
+            description: 'Get the whole conversation an email belongs to, as a chronological transcript',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailId: {
+                  type: 'string',
+                  description: 'ID of any email in the thread',
+                },
+                includeQuoted: {
+                  type: 'boolean',
+                  description: 'Keep quoted text (lines starting with ">") in each message (default: false)',
+                },
+              },
+              required: ['emailId'],
+            },
+          },
+          {
+            name: 'get_attachment',
+            description: 'Download an email attachment or message part, either returned inline (subject to a size limit) or saved to the configured download directory',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                blobId: {
+                  type: 'string',
+                  description: 'Blob ID of the attachment (from the email attachments or bodyStructure)',
+                },
+                emailId: {
+                  type: 'string',
+                  description: 'Email ID containing the part (used with partId when blobId is not known)',
+                },
+                partId: {
+                  type: 'string',
+                  description: 'Part ID within the email (used with emailId)',
+                },
+                name: {
+                  type: 'string',
+                  description: 'File name to download the blob as',
+                },
+                type: {
+                  type: 'string',
+                  description: 'MIME type of the blob (e.g., "application/pdf")',
+                },
+                save: {
+                  type: 'boolean',
+                  description: 'Save to the configured download directory instead of returning the content (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'search_emails',
+            description: 'Search emails using free text and/or structured filters (sender, recipients, subject, dates, size, attachments, keywords, headers). All given fields must match; use "filter" for AND/OR/NOT combinations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                ...EMAIL_SEARCH_PROPERTIES,
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results (default: 20)',
+                },
+                position: {
+                  type: 'number',
+                  description: 'Zero-based index of the first result to return (default: 0). Use pagination.nextPosition from the previous page',
+                },
+                anchor: {
+                  type: 'string',
+                  description: 'ID to page from, stable while new items arrive. Use pagination.nextAnchor from the previous page (takes precedence over position)',
+                },
+                anchorOffset: {
+                  type: 'number',
+                  description: 'Offset from the anchor of the first result (use pagination.nextAnchorOffset, normally 1)',
+                },
+                collapseThreads: {
+                  type: 'boolean',
+                  description: 'Return only the latest matching email from each thread (default: false)',
+                },
+              },
+            },
+          },
+          {
+            name: 'get_changes_since',
+            description: 'Report what was created, updated and destroyed since a state (or since the previous call), using JMAP /changes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                type: {
+                  type: 'string',
+                  enum: ['Email', 'Mailbox', 'Thread', 'CalendarEvent', 'Contact'],
+                  description: 'Data type to check for changes',
+                },
+                sinceState: {
+                  type: 'string',
+                  description: 'State string to compare against (optional, defaults to the state from the previous call)',
+                },
+                mailboxId: {
+                  type: 'string',
+                  description: 'Mailbox ID or name of a get_emails listing to diff with sinceQueryState (Email only)',
+                },
+                sinceQueryState: {
+                  type: 'string',
+                  description: 'pagination.queryState from a previous get_emails call, to report added/removed positions (Email only)',
+                },
+                collapseThreads: {
+                  type: 'boolean',
+                  description: 'Whether the get_emails listing collapsed threads (default: false)',
+                  default: false,
+                },
+                includeDetails: {
+                  type: 'boolean',
+                  description: 'Include headers of new and updated emails (default: true)',
+                  default: true,
+                },
+              },
+              required: ['type'],
+            },
+          },
+          {
+            name: 'send_email',
+            description: 'Send an email',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                to: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Recipient email addresses',
+                },
+                subject: {
+                  type: 'string',
+                  description: 'Email subject',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text body',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML body',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                inReplyTo: {
+                  type: 'string',
+                  description: 'Message ID this is replying to',
+                },
+                references: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Reference message IDs',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: ATTACHMENTS_SCHEMA,
+              },
+              required: ['to', 'subject'],
+            },
+          },
+          {
+            name: 'create_draft',
+            description: 'Save an email as a draft in the Drafts mailbox without sending it, so it can be reviewed first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                to: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Recipient email addresses',
+                },
+                subject: {
+                  type: 'string',
+                  description: 'Email subject',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text body',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML body',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                inReplyTo: {
+                  type: 'string',
+                  description: 'Message ID this is replying to',
+                },
+                references: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Reference message IDs',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: ATTACHMENTS_SCHEMA,
+              },
+            },
+          },
+          {
+            name: 'update_draft',
+            description: 'Update an existing draft. Only the given fields change; the draft gets a new ID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                draftId: {
+                  type: 'string',
+                  description: 'ID of the draft to update',
+                },
+                to: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Recipient email addresses',
+                },
+                subject: {
+                  type: 'string',
+                  description: 'Email subject',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text body',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML body',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                inReplyTo: {
+                  type: 'string',
+                  description: 'Message ID this is replying to',
+                },
+                references: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Reference message IDs',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: {
+                  ...ATTACHMENTS_SCHEMA,
+                  description: 'Files to attach, given as local paths, base64 content or existing blob IDs. Replaces the existing attachments',
+                },
+              },
+              required: ['draftId'],
+            },
+          },
+          {
+            name: 'list_drafts',
+            description: 'List emails in the Drafts mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of drafts to retrieve (default: 20)',
+                },
+              },
+            },
+          },
+          {
+            name: 'send_draft',
+            description: 'Send an existing draft and move it to the Sent mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                draftId: {
+                  type: 'string',
+                  description: 'ID of the draft to send',
+                },
+              },
+              required: ['draftId'],
+            },
+          },
+          {
+            name: 'reply_to_email',
+            description: 'Reply to the sender of an email, quoting the original and setting threading headers',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailId: {
+                  type: 'string',
+                  description: 'ID of the email to reply to',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text reply body (the original is quoted below it)',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML reply body',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Additional CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                quoteOriginal: {
+                  type: 'boolean',
+                  description: 'Quote the original message in the reply (default: true)',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: ATTACHMENTS_SCHEMA,
+              },
+              required: ['emailId'],
+            },
+          },
+          {
+            name: 'reply_all',
+            description: 'Reply to the sender and all recipients of an email, excluding your own addresses',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailId: {
+                  type: 'string',
+                  description: 'ID of the email to reply to',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text reply body (the original is quoted below it)',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML reply body',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Additional CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                quoteOriginal: {
+                  type: 'boolean',
+                  description: 'Quote the original message in the reply (default: true)',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: ATTACHMENTS_SCHEMA,
+              },
+              required: ['emailId'],
+            },
+          },
+          {
+            name: 'forward_email',
+            description: 'Forward an email to new recipients, including the original message and its attachments',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailId: {
+                  type: 'string',
+                  description: 'ID of the email to forward',
+                },
+                to: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Recipient email addresses',
+                },
+                textBody: {
+                  type: 'string',
+                  description: 'Plain text note added above the forwarded message',
+                },
+                htmlBody: {
+                  type: 'string',
+                  description: 'HTML note added above the forwarded message',
+                },
+                cc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'CC recipients',
+                },
+                bcc: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'BCC recipients',
+                },
+                includeAttachments: {
+                  type: 'boolean',
+                  description: 'Re-attach the original attachments (default: true)',
+                },
+                fromIdentity: {
+                  type: 'string',
+                  description: 'Identity to send from, by identity ID or email address (see get_identities). Defaults to the identity matching your account',
+                },
+                attachments: ATTACHMENTS_SCHEMA,
+              },
+              required: ['emailId', 'to'],
+            },
+          },
+          {
+            name: 'mark_as_read',
+            description: 'Mark emails as read',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to mark as read',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'mark_as_unread',
+            description: 'Mark emails as unread',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to mark as unread',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'report_spam',
+            description: 'Mark emails as spam: sets $junk and moves them to the Junk mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to report as spam',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'report_not_spam',
+            description: 'Mark emails as not spam: sets $notjunk and moves them from the Junk mailbox back to the Inbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to report as not spam',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'delete_emails',
+            description: 'Delete emails by moving them to Trash. Emails already in Trash, or all emails when permanent is true, are destroyed permanently',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to delete',
+                },
+                permanent: {
+                  type: 'boolean',
+                  description: 'Destroy the emails permanently instead of moving them to Trash (default: false)',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'empty_trash',
+            description: 'Permanently destroy every email in the Trash mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'empty_mailbox',
+            description: 'Permanently destroy every email in a mailbox. Emails also filed in other mailboxes are only removed from this one',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailbox: {
+                  type: 'string',
+                  description: 'Exact mailbox name, role or ID to empty',
+                },
+              },
+              required: ['mailbox'],
+            },
+          },
+          {
+            name: 'bulk_update_emails',
+            description: 'Apply an action to every email matching a search filter. Matching IDs are collected first, then updated in batches of the server\'s maximum set size. Takes the same filter fields as search_emails. Use dryRun first to see how many emails match',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['mark_read', 'mark_unread', 'flag', 'unflag', 'move', 'archive', 'trash'],
+                  description: 'Action to apply to the matching emails',
+                },
+                targetMailbox: {
+                  type: 'string',
+                  description: 'Target mailbox name, role or ID (required for the move action)',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Only report the number of matching emails and a sample, without changing anything (default: false)',
+                },
+                maxEmails: {
+                  type: 'number',
+                  description: 'Maximum number of emails to process (default: 1000)',
+                },
+                ...EMAIL_SEARCH_PROPERTIES,
+              },
+              required: ['action'],
+            },
+          },
+          {
+            name: 'set_keywords',
+            description: 'Add or remove keywords on emails: $flagged (star), $answered, $junk, $notjunk, $seen or custom labels',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to update',
+                },
+                add: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Keywords to add (e.g., ["$flagged", "project-x"])',
+                },
+                remove: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Keywords to remove',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'flag_emails',
+            description: 'Flag (star) or unflag emails',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to flag or unflag',
+                },
+                flagged: {
+                  type: 'boolean',
+                  description: 'true to flag, false to remove the flag (default: true)',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          {
+            name: 'list_keywords',
+            description: 'List the keywords and labels in use on recent emails, with how many emails carry each',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mailbox: {
+                  type: 'string',
+                  description: 'Mailbox name or ID to scan. If not specified, scans all emails',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Number of most recent emails to scan (default: 500)',
+                },
+              },
+            },
+          },
+          {
+            name: 'move_emails',
+            description: 'Move emails to another mailbox, removing them from their current mailboxes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to move',
+                },
+                mailbox: {
+                  type: 'string',
+                  description: 'Target mailbox name, role (e.g., "Inbox", "Archive", "Trash") or ID',
+                },
+              },
+              required: ['emailIds', 'mailbox'],
+            },
+          },
+          {
+            name: 'copy_emails',
+            description: 'Copy emails into another mailbox, keeping them in their current mailboxes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to copy',
+                },
+                mailbox: {
+                  type: 'string',
+                  description: 'Target mailbox name, role or ID',
+                },
+              },
+              required: ['emailIds', 'mailbox'],
+            },
+          },
+          {
+            name: 'archive_emails',
+            description: 'Move emails to the Archive mailbox',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                emailIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Array of email IDs to archive',
+                },
+              },
+              required: ['emailIds'],
+            },
+          },
+          // Calendar tools
+          {
+            name: 'get_calendars',
+            description: 'Get all calendars from the server',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'get_calendar_events',
+            description: 'Get calendar events from a specific calendar or all calendars',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                calendarId: {
+                  type: 'string',
+                  description: 'Calendar ID to get events from. If not specified, gets events from all calendars.',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of events to retrieve (default: 50)',
+                },
+                position: {
+                  type: 'number',
+                  description: 'Zero-based index of the first result to return (default: 0). Use pagination.nextPosition from the previous page',
+                },
+                anchor: {
+                  type: 'string',
+                  description: 'ID to page from, stable while new items arrive. Use pagination.nextAnchor from the previous page (takes precedence over position)',
+                },
+                anchorOffset: {
+                  type: 'number',
+                  description: 'Offset from the anchor of the first result (use pagination.nextAnchorOffset, normally 1)',
+                },
+              },
+            },
+          },
+          {
+            name: 'create_calendar_event',
+            description: 'Create a new calendar event',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                calendarId: {
+                  type: 'string',
+                  description: 'Calendar ID to create the event in',
+                },
+                title: {
+                  type: 'string',
+                  description: 'Event title',
+                },
+                description: {
+                  type: 'string',
+                  description: 'Event description',
+                },
+                start: {
+                  type: 'string',
+                  description: 'Event start time in ISO 8601 format (e.g., "2024-01-15T10:00:00Z")',
+                },
+                end: {
+                  type: 'string',
+                  description: 'Event end time in ISO 8601 format (e.g., "2024-01-15T11:00:00Z")',
+                },
+                location: {
+                  type: 'string',
+                  description: 'Event location',
+                },
+                participants: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Email addresses of event participants',
+                },
+                showWithoutTime: {
+                  type: 'boolean',
+                  description: 'Whether this is an all-day event (default: false)',
+                },
+              },
+              required: ['calendarId', 'title', 'start', 'end'],
+            },
+          },
+          {
+            name: 'update_calendar_event',
+            description: 'Update an existing calendar event',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                eventId: {
+                  type: 'string',
+                  description: 'Event ID to update',
+                },
+                title: {
+                  type: 'string',
+                  description: 'New event title',
+                },
+                description: {
+                  type: 'string',
+                  description: 'New event description',
+                },
+                start: {
+                  type: 'string',
+                  description: 'New event start time in ISO 8601 format',
+                },
+                end: {
+                  type: 'string',
+                  description: 'New event end time in ISO 8601 format',
+                },
+                location: {
+                  type: 'string',
+                  description: 'New event location',
+                },
+                participants: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'New email addresses of event participants',
+                },
+              },
+              required: ['eventId'],
+            },
+          },
+          {
+            name: 'delete_calendar_event',
+            description: 'Delete a calendar event',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                eventId: {
+                  type: 'string',
+                  description: 'Event ID to delete',
+                },
+              },
+              required: ['eventId'],
+            },
+          },
+          // Contact tools
+          {
+            name: 'get_address_books',
+            description: 'Get all address books from the server',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'get_contacts',
+            description: 'Get contacts from a specific address book or all address books',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                addressBookId: {
+                  type: 'string',
+                  description: 'Address book ID to get contacts from. If not specified, gets contacts from all address books.',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of contacts to retrieve (default: 50)',
+                },
+                position: {
+                  type: 'number',
+                  description: 'Zero-based index of the first result to return (default: 0). Use pagination.nextPosition from the previous page',
+                },
+                anchor: {
+                  type: 'string',
+                  description: 'ID to page from, stable while new items arrive. Use pagination.nextAnchor from the previous page (takes precedence over position)',
+                },
+                anchorOffset: {
+                  type: 'number',
+                  description: 'Offset from the anchor of the first result (use pagination.nextAnchorOffset, normally 1)',
+                },
+              },
+            },
+          },
+          {
+            name: 'search_contacts',
+            description: 'Search contacts by text query',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Search query to find contacts',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results (default: 20)',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'create_contact',
+            description: 'Create a new contact',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                addressBookId: {
+                  type: 'string',
+                  description: 'Address book ID to create the contact in',
+                },
+                firstName: {
+                  type: 'string',
+                  description: 'Contact first name',
+                },
+                lastName: {
+                  type: 'string',
+                  description: 'Contact last name',
+                },
+                emails: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Email type (e.g., "work", "home", "personal")' },
+                      value: { type: 'string', description: 'Email address' },
+                    },
+                    required: ['type', 'value'],
+                  },
+                  description: 'Contact email addresses',
+                },
+                phones: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Phone type (e.g., "work", "home", "mobile")' },
+                      value: { type: 'string', description: 'Phone number' },
+                    },
+                    required: ['type', 'value'],
+                  },
+                  description: 'Contact phone numbers',
+                },
+                addresses: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Address type (e.g., "work", "home")' },
+                      street: { type: 'string', description: 'Street address' },
+                      city: { type: 'string', description: 'City' },
+                      state: { type: 'string', description: 'State/Province' },
+                      country: { type: 'string', description: 'Country' },
+                      postalCode: { type: 'string', description: 'Postal/ZIP code' },
+                    },
+                    required: ['type'],
+                  },
+                  description: 'Contact addresses',
+                },
+                company: {
+                  type: 'string',
+                  description: 'Contact company/organization',
+                },
+                jobTitle: {
+                  type: 'string',
+                  description: 'Contact job title',
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Contact notes',
+                },
+              },
+              required: ['addressBookId'],
+            },
+          },
+          {
+            name: 'update_contact',
+            description: 'Update an existing contact',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                contactId: {
+                  type: 'string',
+                  description: 'Contact ID to update',
+                },
+                firstName: {
+                  type: 'string',
+                  description: 'New contact first name',
+                },
+                lastName: {
+                  type: 'string',
+                  description: 'New contact last name',
+                },
+                emails: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Email type (e.g., "work", "home", "personal")' },
+                      value: { type: 'string', description: 'Email address' },
+                    },
+                    required: ['type', 'value'],
+                  },
+                  description: 'New contact email addresses',
+                },
+                phones: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Phone type (e.g., "work", "home", "mobile")' },
+                      value: { type: 'string', description: 'Phone number' },
+                    },
+                    required: ['type', 'value'],
+                  },
+                  description: 'New contact phone numbers',
+                },
+                addresses: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', description: 'Address type (e.g., "work", "home")' },
+                      street: { type: 'string', description: 'Street address' },
+                      city: { type: 'string', description: 'City' },
+                      state: { type: 'string', description: 'State/Province' },
+                      country: { type: 'string', description: 'Country' },
+                      postalCode: { type: 'string', description: 'Postal/ZIP code' },
+                    },
+                    required: ['type'],
+                  },
+                  description: 'New contact addresses',
+                },
+                company: {
+                  type: 'string',
+                  description: 'New contact company/organization',
+                },
+                jobTitle: {
+                  type: 'string',
+                  description: 'New contact job title',
+                },
+                notes: {
+                  type: 'string',
+                  description: 'New contact notes',
+                },
+              },
+              required: ['contactId'],
+            },
+          },
+          {
+            name: 'delete_contact',
+            description: 'Delete a contact',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                contactId: {
+                  type: 'string',
+                  description: 'Contact ID to delete',
+                },
+              },
+              required: ['contactId'],
+            },
+          },
+        ]
+          .filter(tool => this.isToolSupported(tool.name))
+          .map(tool => this.withScopeArguments(tool)),
+      };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      // profile and accountId select where the tool runs; handlers never see them in args
+      const { profile, accountId, ...args } = (request.params.arguments || {}) as any;
+      const scope: ToolScope = { profile, accountId };
+
+      try {
+        switch (request.params.name) {
+          case 'connect_jmap':
+            return await this.handleConnect(args, profile);
+          
+          case 'oauth_login':
+            return await this.handleOAuthLogin(args, profile);
+          
+          case 'list_profiles':
+            return await this.handleListProfiles();
+          
+          case 'switch_profile':
+            return await this.handleSwitchProfile(profile);
+          
+          case 'list_accounts':
+            return await this.handleListAccounts(scope);
+          
+          case 'get_server_info':
+            return await this.handleGetServerInfo(scope);
+          
+          case 'get_mailboxes':
+            return await this.handleGetMailboxes(scope);
+          
+          case 'create_mailbox':
+            return await this.handleCreateMailbox(args, scope);
+          
+          case 'rename_mailbox':
+            return await this.handleRenameMailbox(args, scope);
+          
+          case 'move_mailbox':
+            return await this.handleMoveMailbox(args, scope);
+          
+          case 'delete_mailbox':
+            return await this.handleDeleteMailbox(args, scope);
+          
+          case 'get_identities':
+            return await this.handleGetIdentities(scope);
+          
+          case 'get_emails':
+            return await this.handleGetEmails(args, scope);
+          
+          case 'get_email_by_id':
+            return await this.handleGetEmailById(args, scope);
+          
+          case 'get_thread':
+            return await this.handleGetThread(args, scope);
+          
+          case 'get_attachment':
+            return await this.handleGetAttachment(args, scope);
+          
+          case 'search_emails':
+            return await this.handleSearchEmails(args, scope);
+          
+          case 'get_changes_since':
+            return await this.handleGetChangesSince(args, scope);
+          
+          case 'send_email':
+            return await this.handleSendEmail(args, scope);
+          
+          case 'create_draft':
+            return await this.handleCreateDraft(args, scope);
+          
+          case 'update_draft':
+            return await this.handleUpdateDraft(args, scope);
+          
+          case 'list_drafts':
+            return await this.handleListDrafts(args, scope);
+          
+          case 'send_draft':
+            return await this.handleSendDraft(args, scope);
+          
+          case 'reply_to_email':
+            return await this.handleReplyToEmail(args, false, scope);
+          
+          case 'reply_all':
+            return await this.handleReplyToEmail(args, true, scope);
+          
+          case 'forward_email':
+            return await this.handleForwardEmail(args, scope);
+          
+          case 'mark_as_read':
+            return await this.handleMarkAsRead(args, scope);
+          
+          case 'mark_as_unread':
+            return await this.handleMarkAsUnread(args, scope);
+          
+          case 'report_spam':
+            return await this.handleReportSpam(args, scope);
+          
+          case 'report_not_spam':
+            return await this.handleReportNotSpam(args, scope);
+          
+          case 'delete_emails':
+            return await this.handleDeleteEmails(args, scope);
+          
+          case 'empty_trash':
+            return await this.handleEmptyTrash(scope);
+          
+          case 'empty_mailbox':
+            return await this.handleEmptyMailbox(args, scope);
+          
+          case 'bulk_update_emails':
+            return await this.handleBulkUpdateEmails(args, scope);
+          
+          case 'set_keywords':
+            return await this.handleSetKeywords(args, scope);
+          
+          case 'flag_emails':
+            return await this.handleFlagEmails(args, scope);
+          
+          case 'list_keywords':
+            return await this.handleListKeywords(args, scope);
+          
+          case 'move_emails':
+            return await this.handleMoveEmails(args, scope);
+          
+          case 'copy_emails':
+            return await this.handleCopyEmails(args, scope);
+          
+          case 'archive_emails':
+            return await this.handleArchiveEmails(args, scope);
+          
+          // Calendar handlers
+          case 'get_calendars':
+            return await this.handleGetCalendars(scope);
+          
+          case 'get_calendar_events':
+            return await this.handleGetCalendarEvents(args, scope);
+          
+          case 'create_calendar_event':
+            return await this.handleCreateCalendarEvent(args, scope);
+          
+          case 'update_calendar_event':
+            return await this.handleUpdateCalendarEvent(args, scope);
+          
+          case 'delete_calendar_event':
+            return await this.handleDeleteCalendarEvent(args, scope);
+          
+          // Contact handlers
+          case 'get_address_books':
+            return await this.handleGetAddressBooks(scope);
+          
+          case 'get_contacts':
+            return await this.handleGetContacts(args, scope);
+          
+          case 'search_contacts':
+            return await this.handleSearchContacts(args, scope);
+          
+          case 'create_contact':
+            return await this.handleCreateContact(args, scope);
+          
+          case 'update_contact':
+            return await this.handleUpdateContact(args, scope);
+          
+          case 'delete_contact':
+            return await this.handleDeleteContact(args, scope);
+          
+          default:
+            throw new McpError(
+              ErrorCode.MethodNotFound,
+              `Unknown tool: ${request.params.name}`
+            );
+        }
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  // Tools can target another profile and (except list_accounts) another account in it
+  private withScopeArguments(tool: any) {
+    if (['connect_jmap', 'oauth_login', 'list_profiles', 'switch_profile'].includes(tool.name)) {
+      return tool;
+    }
+
+    const properties: any = {
+      ...tool.inputSchema.properties,
+      profile: {
+        type: 'string',
+        description: 'Config profile to use instead of the active one (see list_profiles)',
+      },
+    };
+    if (tool.name !== 'list_accounts') {
+      properties.accountId = {
+        type: 'string',
+        description: 'Account ID or name to use instead of the default account (see list_accounts)',
+      };
+    }
+
+    return { ...tool, inputSchema: { ...tool.inputSchema, properties } };
+  }
+
+  // Connected client for a profile, connecting on first use so each profile keeps its own session and caches
+  private async getProfileClient(profile: string): Promise<JmapJMAPClient> {
+    const existing = this.clients.get(profile);
+    if (existing) {
+      return existing;
+    }
+
+    const config = this.profiles[profile];
+    if (!config) {
+      throw new Error(`Profile "${profile}" not found. Available profiles: ${Object.keys(this.profiles).join(', ') || 'none'}`);
+    }
+
+    const client = new JmapJMAPClient(config);
+    await client.getMailboxes();
+    this.clients.set(profile, client);
+    console.error(`✅ Connected profile "${profile}" to ${config.baseUrl} as ${config.username || 'token user'}`);
+    return client;
+  }
+
+  private async scopedClient(scope: ToolScope): Promise<JmapJMAPClient> {
+    const client = scope.profile ? await this.getProfileClient(scope.profile) : this.client!;
+    return client.forAccount(scope.accountId);
+  }
+
+  private async activateProfile(profile: string, client: JmapJMAPClient) {
+    if (this.client !== client) {
+      this.client?.stopPushListener();
+    }
+    this.activeProfile = profile;
+    this.client = client;
+    this.isInitialized = true;
+    this.startPush();
+
+    // Available tools and resources depend on the server behind the profile
+    await this.server.sendToolListChanged();
+    await this.server.sendResourceListChanged();
+  }
+
+  // Tools can run against any profile, so hide one only when no profile could support it
+  private isToolSupported(toolName: string): boolean {
+    const urn = TOOL_CAPABILITIES[toolName];
+    if (!urn || !this.client || !this.isInitialized) {
+      return true;
+    }
+    return Object.keys(this.profiles).some(profile => {
+      const client = this.clients.get(profile);
+      return !client || client.supportsCapability(urn);
+    });
+  }
+
+  // A call that names a profile connects it on demand; otherwise the active profile must be connected
+  private isConnected(scope: ToolScope): boolean {
+    return Boolean(scope.profile) || (this.client !== null && this.isInitialized);
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      await this.ensureInitialized();
+      if (!this.client || !this.isInitialized) {
+        return { resources: [] };
+      }
+
+      const mailboxes = await this.client.getMailboxes();
+      const calendars = this.client.supportsCapability(JMAP_CALENDARS) ? await this.client.getCalendars() : { list: [] };
+      return {
+        resources: [
+          {
+            uri: 'jmap://mailboxes',
+            name: 'Mailboxes',
+            description: 'All mailboxes as a folder tree with unread/total counts',
+            mimeType: 'text/plain',
+          },
+          ...(mailboxes.list || []).map((mailbox: any) => ({
+            uri: `jmap://mailbox/${encodeURIComponent(mailbox.name)}`,
+            name: mailbox.name,
+            description: `Latest emails in ${mailbox.name}${mailbox.role ? ` (${mailbox.role})` : ''}`,
+            mimeType: 'application/json',
+          })),
+          ...(calendars.list || []).map((calendar: any) => ({
+            uri: `jmap://calendar/${encodeURIComponent(calendar.id)}/events`,
+            name: `${calendar.name} events`,
+            description: `Events in the ${calendar.name} calendar`,
+            mimeType: 'application/json',
+          })),
+        ],
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: 'jmap://mailbox/{name}',
+          name: 'Mailbox',
+          description: 'Latest emails in a mailbox, by name or role (e.g. Inbox)',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'jmap://email/{id}',
+          name: 'Email',
+          description: 'A single email with headers, body and attachment list',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'jmap://calendar/{id}/events',
+          name: 'Calendar events',
+          description: 'Events in a calendar',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: 'jmap://contact/{id}',
+          name: 'Contact',
+          description: 'A contact card',
+          mimeType: 'application/json',
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      await this.ensureInitialized();
+      if (!this.client || !this.isInitialized) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.'
+        );
+      }
+
+      const uri = request.params.uri;
+      if (uri === 'jmap://mailboxes') {
+        const mailboxes = await this.client.getMailboxes();
+        return {
+          contents: [{ uri, mimeType: 'text/plain', text: renderMailboxTree(mailboxes.list || []) }],
+        };
+      }
+
+      if (uri.startsWith('jmap://mailbox/')) {
+        const mailboxName = decodeURIComponent(uri.slice('jmap://mailbox/'.length));
+        const emails = await this.client.searchEmails({ mailboxId: mailboxName }, 20);
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(emails, null, 2) }],
+        };
+      }
+
+      const emailMatch = uri.match(/^jmap:\/\/email\/([^/]+)$/);
+      if (emailMatch) {
+        const email = await this.client.getEmailById(decodeURIComponent(emailMatch[1]));
+        if (!email.list?.length) {
+          throw new McpError(ErrorCode.InvalidParams, `Email not found: ${uri}`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(email.list[0], null, 2) }],
+        };
+      }
+
+      const calendarMatch = uri.match(/^jmap:\/\/calendar\/([^/]+)\/events$/);
+      if (calendarMatch) {
+        const events = await this.client.getCalendarEvents(decodeURIComponent(calendarMatch[1]));
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(events, null, 2) }],
+        };
+      }
+
+      const contactMatch = uri.match(/^jmap:\/\/contact\/([^/]+)$/);
+      if (contactMatch) {
+        const contact = await this.client.getContactById(decodeURIComponent(contactMatch[1]));
+        if (!contact.list?.length) {
+          throw new McpError(ErrorCode.InvalidParams, `Contact not found: ${uri}`);
+        }
+        return {
+          contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(contact.list[0], null, 2) }],
+        };
+      }
+
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      await this.ensureInitialized();
+      this.startPush();
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      if (this.subscriptions.size === 0) {
+        this.client?.stopPushListener();
+      }
+      return {};
+    });
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: [
+        {
+          name: 'triage_inbox',
+          description: 'Sort unread Inbox mail into urgent, needs reply, FYI and junk, and suggest actions',
+          arguments: [
+            { name: 'limit', description: 'Maximum number of unread emails to include (default: 25)' },
+          ],
+        },
+        {
+          name: 'summarize_thread',
+          description: 'Summarize the conversation an email belongs to',
+          arguments: [
+            { name: 'emailId', description: 'ID of any email in the thread', required: true },
+          ],
+        },
+        {
+          name: 'draft_reply',
+          description: 'Draft a reply to an email in a given tone',
+          arguments: [
+            { name: 'emailId', description: 'ID of the email to reply to', required: true },
+            { name: 'tone', description: 'Tone of the reply, e.g. friendly, formal, brief (default: professional)' },
+          ],
+        },
+        {
+          name: 'weekly_agenda',
+          description: 'Summarize calendar events for the next seven days',
+          arguments: [],
+        },
+        {
+          name: 'meeting_followup',
+          description: 'Draft a follow-up email to the participants of a meeting',
+          arguments: [
+            { name: 'eventId', description: 'ID of the calendar event', required: true },
+          ],
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      await this.ensureInitialized();
+      if (!this.client || !this.isInitialized) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.'
+        );
+      }
+
+      const args = request.params.arguments || {};
+      const requireArg = (name: string): string => {
+        if (!args[name]) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${name}`);
+        }
+        return args[name];
+      };
+
+      switch (request.params.name) {
+        case 'triage_inbox': {
+          const limit = args.limit ? parseInt(args.limit, 10) : 25;
+          if (Number.isNaN(limit) || limit < 1) {
+            throw new McpError(ErrorCode.InvalidParams, `limit must be a positive number, got "${args.limit}"`);
+          }
+          return await this.getTriageInboxPrompt(limit);
+        }
+        case 'summarize_thread':
+          return await this.getSummarizeThreadPrompt(requireArg('emailId'));
+        case 'draft_reply':
+          return await this.getDraftReplyPrompt(requireArg('emailId'), args.tone || 'professional');
+        case 'weekly_agenda':
+          return await this.getWeeklyAgendaPrompt();
+        case 'meeting_followup':
+          return await this.getMeetingFollowupPrompt(requireArg('eventId'));
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+      }
+    });
+  }
+
+  private promptMessage(text: string) {
+    return { role: 'user' as const, content: { type: 'text' as const, text } };
+  }
+
+  private async getTriageInboxPrompt(limit: number) {
+    const result = await this.client!.searchEmails({ mailboxId: 'inbox', notKeyword: '$seen' }, limit);
+    const emails = result.emails.list || [];
+
+    return {
+      description: `Triage ${emails.length} unread Inbox emails`,
+      messages: [
+        this.promptMessage([
+          `Here are the ${emails.length} most recent unread emails in my Inbox${result.pagination.total > emails.length ? ` (of ${result.pagination.total} unread)` : ''}:`,
+          '',
+          emails.length > 0 ? renderEmailList(emails) : '(no unread emails)',
+          '',
+          'Sort them into: urgent, needs a reply, FYI, and likely junk. Give one line per email with its ID and the reason.',
+          'Then suggest actions I can take with the available tools, e.g. flag_emails for urgent mail, archive_emails or mark_as_read for FYI, report_spam for junk, and reply_to_email for anything needing a reply.',
+        ].join('\n')),
+      ],
+    };
+  }
+
+  private async getSummarizeThreadPrompt(emailId: string) {
+    const thread = await this.client!.getThread(emailId);
+
+    return {
+      description: `Summarize thread ${thread.threadId}`,
+      messages: [
+        this.promptMessage([
+          'Summarize this email conversation: the main topic, what each participant wants, any decisions made, and open questions or action items with owners.',
+          '',
+          renderThreadTranscript(thread),
+        ].join('\n')),
+      ],
+    };
+  }
+
+  private async getDraftReplyPrompt(emailId: string, tone: string) {
+    const thread = await this.client!.getThread(emailId);
+
+    return {
+      description: `Draft a ${tone} reply to email ${emailId}`,
+      messages: [
+        this.promptMessage([
+          `Draft a ${tone} reply to email ${emailId} in the conversation below. Address every question it asks and keep it concise.`,
+          `Show me the draft first; once I approve it, save it with reply_to_email (emailId: ${emailId}) or create_draft.`,
+          '',
+          renderThreadTranscript(thread),
+        ].join('\n')),
+      ],
+    };
+  }
+
+  private async getWeeklyAgendaPrompt() {
+    const now = Date.now();
+    const weekEnd = now + 7 * 24 * 60 * 60 * 1000;
+    const result = await this.client!.getCalendarEvents(undefined, 200, {}, {
+      after: new Date(now).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      before: new Date(weekEnd).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    });
+    const events = (result.eventsResult?.list || [])
+      // Keep events still in progress as well as those starting this week
+      .filter((event: any) => eventEndTime(event) > now && Date.parse(event.start) < weekEnd)
+      .sort((a: any, b: any) => Date.parse(a.start) - Date.parse(b.start));
+
+    const agenda = events.map((event: any) =>
+      `- (id: ${event.id}) ${event.start}${event.end ? ` - ${event.end}` : ''} | ${event.title || '(untitled)'}${event.location ? ` @ ${event.location}` : ''}`
+    ).join('\n');
+
+    return {
+      description: `Agenda for the next seven days (${events.length} events)`,
+      messages: [
+        this.promptMessage([
+          `Here are my calendar events for the next seven days, starting ${new Date(now).toISOString()}:`,
+          '',
+          events.length > 0 ? agenda : '(no events)',
+          '',
+          'Give me a day-by-day agenda. Point out conflicts, back-to-back meetings and days with no free time, and anything I should prepare for.',
+        ].join('\n')),
+      ],
+    };
+  }
+
+  private async getMeetingFollowupPrompt(eventId: string) {
+    const result = await this.client!.getCalendarEventById(eventId);
+    const event = result.list?.[0];
+    if (!event) {
+      throw new McpError(ErrorCode.InvalidParams, `Calendar event not found: ${eventId}`);
+    }
+
+    const participants = Object.values(event.participants || {})
+      .map((participant: any) => formatAddress({ name: participant.name, email: participant.email || '' }))
+      .join(', ');
+
+    // Related mail gives the model context for what was discussed
+    let relatedEmails = '';
+    if (event.title) {
+      try {
+        const related = await this.client!.searchEmails({ subject: event.title }, 10);
+        relatedEmails = renderEmailList(related.emails.list || []);
+      } catch (error) {
+        console.error(`Failed to search emails related to event ${eventId}: ${error}`);
+      }
+    }
+
+    return {
+      description: `Follow up on "${event.title || eventId}"`,
+      messages: [
+        this.promptMessage([
+          `Draft a follow-up email for this meeting:`,
+          '',
+          `Title: ${event.title || '(untitled)'}`,
+          `When: ${event.start}${event.end ? ` - ${event.end}` : ''}`,
+          ...(event.location ? [`Location: ${event.location}`] : []),
+          `Participants: ${participants || '(none listed)'}`,
+          ...(event.description ? ['', 'Description:', event.description] : []),
+          ...(relatedEmails ? ['', 'Related emails:', relatedEmails] : []),
+          '',
+          'Thank the participants, recap the purpose of the meeting, and list action items and next steps, leaving placeholders where you do not know the outcome.',
+          'Show me the draft first; once I approve it, save it with create_draft addressed to the participants.',
+        ].join('\n')),
+      ],
+    };
+  }
+
+  // Push is only kept open while the MCP client has resource subscriptions
+  private startPush() {
+    if (!this.client || !this.isInitialized || this.subscriptions.size === 0) {
+      return;
+    }
+    this.client.startPushListener(changed => this.notifyResourceChanges(changed));
+  }
+
+  private async notifyResourceChanges(changed: { [type: string]: string }) {
+    const prefixes = Object.keys(changed).flatMap(type => PUSH_RESOURCE_PREFIXES[type] || []);
+    const updatedUris = [...this.subscriptions].filter(uri => prefixes.some(prefix => uri.startsWith(prefix)));
+
+    try {
+      for (const uri of updatedUris) {
+        await this.server.sendResourceUpdated({ uri });
+      }
+      if (changed.Mailbox) {
+        await this.server.sendResourceListChanged();
+      }
+    } catch (error) {
+      console.error(`Failed to send resource notifications: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async handleConnect(args: any, profile: string = this.activeProfile) {
+    await this.ensureInitialized();
+
+    const { baseUrl, username, password, token } = args;
+    if ((password || token) && !this.allowSecretArguments) {
+      throw new Error('Passing a password or token to connect_jmap is disabled because it would be stored in the conversation. ' +
+        'Configure credentials with passwordCommand, passwordFile or environment variables instead, or set allowPasswordArguments in the config file (JMAP_ALLOW_PASSWORD_ARGUMENTS=true) to allow it.');
+    }
+
+    let config: JmapConfig;
+    if (password || token) {
+      if (!baseUrl || (!token && !username)) {
+        throw new Error('Provide baseUrl, and either a token or a username and password');
+      }
+      config = { baseUrl: baseUrl.replace(/\/$/, ''), username, password, token };
+    } else {
+      // Reuse the profile's configured credentials, but never send them to a different server
+      const configured = this.profiles[profile];
+      if (!configured) {
+        throw new Error(`Profile "${profile}" has no configured credentials. Add it to the config file with passwordCommand, passwordFile, token or oauth`);
+      }
+      const url = (baseUrl || configured.baseUrl).replace(/\/$/, '');
+      if (url !== configured.baseUrl.replace(/\/$/, '')) {
+        throw new Error(`The credentials configured for profile "${profile}" are only sent to ${configured.baseUrl}`);
+      }
+      config = { ...configured, username: username || configured.username };
+    }
+    if (!hasCredentials(config)) {
+      throw new Error(`No credentials for ${config.baseUrl}. Configure passwordCommand, passwordFile, token or oauth for profile "${profile}"`);
+    }
+    const client = new JmapJMAPClient(config);
+
+    // Test connection
+    await client.getMailboxes();
+    this.clients.get(profile)?.stopPushListener();
+    this.profiles[profile] = config;
+    this.clients.set(profile, client);
+    await this.activateProfile(profile, client);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully connected to Jmap Mail server at ${config.baseUrl} (profile "${profile}")`,
+        },
+      ],
+    };
+  }
+
+  private async handleOAuthLogin(args: any, profile: string = this.activeProfile) {
+    await this.ensureInitialized();
+
+    const config = this.profiles[profile];
+    if (!config || getAuthType(config) !== 'oauth') {
+      throw new Error(`Profile "${profile}" is not configured with authType "oauth"`);
+    }
+
+    let oauth = this.oauthLogins.get(profile);
+    if (!oauth) {
+      oauth = new JmapOAuth(config);
+      this.oauthLogins.set(profile, oauth);
+    }
+
+    if (args.code) {
+      await oauth.exchangeCode(args.code);
+      this.oauthLogins.delete(profile);
+      await this.connectProfileAfterLogin(profile);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Signed in and connected profile "${profile}" to ${config.baseUrl}`,
+          },
+        ],
+      };
+    }
+
+    if (config.oauth!.deviceAuthorizationUrl) {
+      const device = await oauth.startDeviceLogin(async error => {
+        this.oauthLogins.delete(profile);
+        if (error) {
+          console.error(`OAuth login for profile "${profile}" failed: ${error.message}`);
+          return;
+        }
+        try {
+          await this.connectProfileAfterLogin(profile);
+        } catch (connectError) {
+          console.error(`Failed to connect profile "${profile}" after OAuth login: ${connectError instanceof Error ? connectError.message : String(connectError)}`);
+        }
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `To sign in profile "${profile}", open ${device.verificationUriComplete || device.verificationUri} and enter the code ${device.userCode}. ` +
+              `The server connects automatically once you approve (the code expires in ${Math.round((device.expiresIn || 600) / 60)} minutes).`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `To sign in profile "${profile}", open this URL and approve access, then call oauth_login again with the code or the full URL you were redirected to:\n\n${oauth.authorizationUrl()}`,
+        },
+      ],
+    };
+  }
+
+  // Replace the profile's client now that OAuth tokens are stored
+  private async connectProfileAfterLogin(profile: string) {
+    this.clients.get(profile)?.stopPushListener();
+    this.clients.delete(profile);
+    const client = await this.getProfileClient(profile);
+    if (profile === this.activeProfile) {
+      await this.activateProfile(profile, client);
+    }
+  }
+
+  private async handleListProfiles() {
+    await this.ensureInitialized();
+
+    const profiles = Object.entries(this.profiles).map(([name, config]) => ({
+      name,
+      baseUrl: config.baseUrl,
+      username: config.username,
+      authType: getAuthType(config),
+      active: name === this.activeProfile && this.isInitialized,
+      connected: this.clients.has(name),
+    }));
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(profiles, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSwitchProfile(profile: unknown) {
+    await this.ensureInitialized();
+
+    if (typeof profile !== 'string' || profile.trim() === '') {
+      throw new Error('profile must be a non-empty string naming a configured profile');
+    }
+
+    const client = await this.getProfileClient(profile);
+    await this.activateProfile(profile, client);
+    const config = this.profiles[profile];
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Switched to profile "${profile}" (${config.baseUrl} as ${config.username || 'token user'})`,
+        },
+      ],
+    };
+  }
+
+  private async handleListAccounts(scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient({ profile: scope.profile });
+    const accounts = await client.listAccounts();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(accounts, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetServerInfo(scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const info = await client.getServerInfo();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(info, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetMailboxes(scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const mailboxes = await client.getMailboxes();
+    const list = mailboxes.list || [];
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mailboxes (${list.length}):\n${renderMailboxTree(list)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleCreateMailbox(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_mailboxes',
-            description: 'Get all mailboxes from the mail server',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { name, parent } = args;
+    const result = await client.createMailbox(name, parent);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mailbox created successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleRenameMailbox(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_emails',
-            description: 'Get emails from a mailbox',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                mailboxId: {
-                  type: 'string',
-                  description: 'Mailbox ID or name (e.g., "Inbox", "Sent", "M001abc123"). If not specified, gets all emails.',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of emails to retrieve (default: 50)',
-                },
-              },
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { mailbox, newName } = args;
+    const result = await client.renameMailbox(mailbox, newName);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mailbox renamed successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleMoveMailbox(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_email_by_id',
-            description: 'Get a specific email by its ID',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                emailId: {
-                  type: 'string',
-                  description: 'Email ID',
-                },
-              },
-              required: ['emailId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { mailbox, parent } = args;
+    const result = await client.moveMailbox(mailbox, parent);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mailbox moved successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleDeleteMailbox(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'search_emails',
-            description: 'Search emails by text query',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 20)',
-                },
-                mailboxId: {
-                  type: 'string',
-                  description: 'Search within specific mailbox (name or ID, optional)',
-                },
-              },
-              required: ['query'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { mailbox, onDestroyRemoveEmails = false } = args;
+    const result = await client.deleteMailbox(mailbox, onDestroyRemoveEmails);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mailbox deleted successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleGetIdentities(scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'send_email',
-            description: 'Send an email',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                to: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Recipient email addresses',
-                },
-                subject: {
-                  type: 'string',
-                  description: 'Email subject',
-                },
-                textBody: {
-                  type: 'string',
-                  description: 'Plain text body',
-                },
-                htmlBody: {
-                  type: 'string',
-                  description: 'HTML body',
-                },
-                cc: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'CC recipients',
-                },
-                bcc: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'BCC recipients',
-                },
-                inReplyTo: {
-                  type: 'string',
-                  description: 'Message ID this is replying to',
-                },
-                references: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Reference message IDs',
-                },
-              },
-              required: ['to', 'subject'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const identities = await client.getIdentities();
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(identities, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetEmails(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { mailboxId, limit = 50, collapseThreads = false, position, anchor, anchorOffset } = args || {};
+    const result = await client.getEmails(mailboxId, limit, collapseThreads, { position, anchor, anchorOffset });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetEmailById(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailId } = args;
+    const result = await client.getEmailById(emailId);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetThread(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'mark_as_read',
-            description: 'Mark emails as read',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                emailIds: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of email IDs to mark as read',
-                },
-              },
-              required: ['emailIds'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailId, includeQuoted = false } = args;
+    const thread = await client.getThread(emailId);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderThreadTranscript(thread, includeQuoted),
+        },
+      ],
+    };
+  }
+
+  private async handleGetAttachment(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'mark_as_unread',
-            description: 'Mark emails as unread',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                emailIds: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of email IDs to mark as unread',
-                },
-              },
-              required: ['emailIds'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const result = await client.getAttachment(args || {});
+
+    if (result.savedTo) {
+      return {
+        content: [
           {
-            name: 'delete_emails',
-            description: 'Delete emails (move to trash)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                emailIds: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Array of email IDs to delete',
-                },
-              },
-              required: ['emailIds'],
-            },
+            type: 'text',
+            text: `Attachment "${result.name}" saved to ${result.savedTo}`,
           },
-          // Calendar tools
+        ],
+      };
+    }
+
+    const isText = result.type.startsWith('text/') || /\/(json|xml)$/.test(result.type);
+    const uri = `jmap://blob/${encodeURIComponent(result.blobId)}/${encodeURIComponent(result.name)}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Attachment "${result.name}" (${result.type}, ${result.size} bytes)`,
+        },
+        {
+          type: 'resource',
+          resource: isText
+            ? { uri, mimeType: result.type, text: result.data.toString('utf8') }
+            : { uri, mimeType: result.type, blob: result.data.toString('base64') },
+        },
+      ],
+    };
+  }
+
+  private async handleSearchEmails(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_calendars',
-            description: 'Get all calendars from the server',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { limit = 20, collapseThreads = false, position, anchor, anchorOffset, ...criteria } = args || {};
+    const result = await client.searchEmails(criteria, limit, collapseThreads, { position, anchor, anchorOffset });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetChangesSince(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_calendar_events',
-            description: 'Get calendar events from a specific calendar or all calendars',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                calendarId: {
-                  type: 'string',
-                  description: 'Calendar ID to get events from. If not specified, gets events from all calendars.',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of events to retrieve (default: 50)',
-                },
-              },
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { type, sinceState, ...options } = args;
+    const result = await client.getChangesSince(type, sinceState, options);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${result.summary}\n${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleSendEmail(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'create_calendar_event',
-            description: 'Create a new calendar event',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                calendarId: {
-                  type: 'string',
-                  description: 'Calendar ID to create the event in',
-                },
-                title: {
-                  type: 'string',
-                  description: 'Event title',
-                },
-                description: {
-                  type: 'string',
-                  description: 'Event description',
-                },
-                start: {
-                  type: 'string',
-                  description: 'Event start time in ISO 8601 format (e.g., "2024-01-15T10:00:00Z")',
-                },
-                end: {
-                  type: 'string',
-                  description: 'Event end time in ISO 8601 format (e.g., "2024-01-15T11:00:00Z")',
-                },
-                location: {
-                  type: 'string',
-                  description: 'Event location',
-                },
-                participants: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'Email addresses of event participants',
-                },
-                showWithoutTime: {
-                  type: 'boolean',
-                  description: 'Whether this is an all-day event (default: false)',
-                },
-              },
-              required: ['calendarId', 'title', 'start', 'end'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const result = await client.sendEmail(args);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Email sent successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleCreateDraft(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'update_calendar_event',
-            description: 'Update an existing calendar event',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                eventId: {
-                  type: 'string',
-                  description: 'Event ID to update',
-                },
-                title: {
-                  type: 'string',
-                  description: 'New event title',
-                },
-                description: {
-                  type: 'string',
-                  description: 'New event description',
-                },
-                start: {
-                  type: 'string',
-                  description: 'New event start time in ISO 8601 format',
-                },
-                end: {
-                  type: 'string',
-                  description: 'New event end time in ISO 8601 format',
-                },
-                location: {
-                  type: 'string',
-                  description: 'New event location',
-                },
-                participants: {
-                  type: 'array',
-                  items: { type: 'string' },
-                  description: 'New email addresses of event participants',
-                },
-              },
-              required: ['eventId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const result = await client.createDraft(args || {});
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Draft created successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleUpdateDraft(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'delete_calendar_event',
-            description: 'Delete a calendar event',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                eventId: {
-                  type: 'string',
-                  description: 'Event ID to delete',
-                },
-              },
-              required: ['eventId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
-          // Contact tools
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { draftId, ...changes } = args;
+    const result = await client.updateDraft(draftId, changes);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Draft updated successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleListDrafts(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_address_books',
-            description: 'Get all address books from the server',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { limit = 20 } = args || {};
+    const result = await client.listDrafts(limit);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSendDraft(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'get_contacts',
-            description: 'Get contacts from a specific address book or all address books',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                addressBookId: {
-                  type: 'string',
-                  description: 'Address book ID to get contacts from. If not specified, gets contacts from all address books.',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of contacts to retrieve (default: 50)',
-                },
-              },
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { draftId } = args;
+    const result = await client.sendDraft(draftId);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Draft sent successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleReplyToEmail(args: any, replyAll: boolean, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'search_contacts',
-            description: 'Search contacts by text query',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query to find contacts',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 20)',
-                },
-              },
-              required: ['query'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailId, ...replyData } = args;
+    const result = await client.replyToEmail(emailId, replyData, replyAll);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Reply sent successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleForwardEmail(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'create_contact',
-            description: 'Create a new contact',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                addressBookId: {
-                  type: 'string',
-                  description: 'Address book ID to create the contact in',
-                },
-                firstName: {
-                  type: 'string',
-                  description: 'Contact first name',
-                },
-                lastName: {
-                  type: 'string',
-                  description: 'Contact last name',
-                },
-                emails: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Email type (e.g., "work", "home", "personal")' },
-                      value: { type: 'string', description: 'Email address' },
-                    },
-                    required: ['type', 'value'],
-                  },
-                  description: 'Contact email addresses',
-                },
-                phones: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Phone type (e.g., "work", "home", "mobile")' },
-                      value: { type: 'string', description: 'Phone number' },
-                    },
-                    required: ['type', 'value'],
-                  },
-                  description: 'Contact phone numbers',
-                },
-                addresses: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Address type (e.g., "work", "home")' },
-                      street: { type: 'string', description: 'Street address' },
-                      city: { type: 'string', description: 'City' },
-                      state: { type: 'string', description: 'State/Province' },
-                      country: { type: 'string', description: 'Country' },
-                      postalCode: { type: 'string', description: 'Postal/ZIP code' },
-                    },
-                    required: ['type'],
-                  },
-                  description: 'Contact addresses',
-                },
-                company: {
-                  type: 'string',
-                  description: 'Contact company/organization',
-                },
-                jobTitle: {
-                  type: 'string',
-                  description: 'Contact job title',
-                },
-                notes: {
-                  type: 'string',
-                  description: 'Contact notes',
-                },
-              },
-              required: ['addressBookId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailId, ...forwardData } = args;
+    const result = await client.forwardEmail(emailId, forwardData);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Email forwarded successfully: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleMarkAsRead(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailIds } = args;
+    const result = await client.markAsRead(emailIds);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Marked ${emailIds.length} emails as read: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleMarkAsUnread(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailIds } = args;
+    const result = await client.markAsUnread(emailIds);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Marked ${emailIds.length} emails as unread: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleReportSpam(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'update_contact',
-            description: 'Update an existing contact',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                contactId: {
-                  type: 'string',
-                  description: 'Contact ID to update',
-                },
-                firstName: {
-                  type: 'string',
-                  description: 'New contact first name',
-                },
-                lastName: {
-                  type: 'string',
-                  description: 'New contact last name',
-                },
-                emails: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Email type (e.g., "work", "home", "personal")' },
-                      value: { type: 'string', description: 'Email address' },
-                    },
-                    required: ['type', 'value'],
-                  },
-                  description: 'New contact email addresses',
-                },
-                phones: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Phone type (e.g., "work", "home", "mobile")' },
-                      value: { type: 'string', description: 'Phone number' },
-                    },
-                    required: ['type', 'value'],
-                  },
-                  description: 'New contact phone numbers',
-                },
-                addresses: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      type: { type: 'string', description: 'Address type (e.g., "work", "home")' },
-                      street: { type: 'string', description: 'Street address' },
-                      city: { type: 'string', description: 'City' },
-                      state: { type: 'string', description: 'State/Province' },
-                      country: { type: 'string', description: 'Country' },
-                      postalCode: { type: 'string', description: 'Postal/ZIP code' },
-                    },
-                    required: ['type'],
-                  },
-                  description: 'New contact addresses',
-                },
-                company: {
-                  type: 'string',
-                  description: 'New contact company/organization',
-                },
-                jobTitle: {
-                  type: 'string',
-                  description: 'New contact job title',
-                },
-                notes: {
-                  type: 'string',
-                  description: 'New contact notes',
-                },
-              },
-              required: ['contactId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
+        ],
+      };
+    }
+
+    const client = await this.scopedClient(scope);
+    const { emailIds } = args;
+    const result = await client.reportSpam(emailIds);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Reported ${result.succeeded.length} of ${emailIds.length} emails as spam: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleReportNotSpam(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
           {
-            name: 'delete_contact',
-            description: 'Delete a contact',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                contactId: {
-                  type: 'string',
-                  description: 'Contact ID to delete',
-                },
-              },
-              required: ['contactId'],
-            },
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
           },
         ],
       };
-    });
+    }
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        switch (request.params.name) {
-          case 'connect_jmap':
-            return await this.handleConnect(request.params.arguments);
-          
-          case 'get_mailboxes':
-            return await this.handleGetMailboxes();
-          
-          case 'get_emails':
-            return await this.handleGetEmails(request.params.arguments);
-          
-          case 'get_email_by_id':
-            return await this.handleGetEmailById(request.params.arguments);
-          
-          case 'search_emails':
-            return await this.handleSearchEmails(request.params.arguments);
-          
-          case 'send_email':
-            return await this.handleSendEmail(request.params.arguments);
-          
-          case 'mark_as_read':
-            return await this.handleMarkAsRead(request.params.arguments);
-          
-          case 'mark_as_unread':
-            return await this.handleMarkAsUnread(request.params.arguments);
-          
-          case 'delete_emails':
-            return await this.handleDeleteEmails(request.params.arguments);
-          
-          // Calendar handlers
-          case 'get_calendars':
-            return await this.handleGetCalendars();
-          
-          case 'get_calendar_events':
-            return await this.handleGetCalendarEvents(request.params.arguments);
-          
-          case 'create_calendar_event':
-            return await this.handleCreateCalendarEvent(request.params.arguments);
-          
-          case 'update_calendar_event':
-            return await this.handleUpdateCalendarEvent(request.params.arguments);
-          
-          case 'delete_calendar_event':
-            return await this.handleDeleteCalendarEvent(request.params.arguments);
-          
-          // Contact handlers
-          case 'get_address_books':
-            return await this.handleGetAddressBooks();
-          
-          case 'get_contacts':
-            return await this.handleGetContacts(request.params.arguments);
-          
-          case 'search_contacts':
-            return await this.handleSearchContacts(request.params.arguments);
-          
-          case 'create_contact':
-            return await this.handleCreateContact(request.params.arguments);
-          
-          case 'update_contact':
-            return await this.handleUpdateContact(request.params.arguments);
-          
-          case 'delete_contact':
-            return await this.handleDeleteContact(request.params.arguments);
-          
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${request.params.name}`
-            );
-        }
-      } catch (error) {
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    });
+    const client = await this.scopedClient(scope);
+    const { emailIds } = args;
+    const result = await client.reportNotSpam(emailIds);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Reported ${result.succeeded.length} of ${emailIds.length} emails as not spam: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
   }
 
-  private async handleConnect(args: any) {
-    const { baseUrl, username, password } = args;
+  private async handleDeleteEmails(args: any, scope: ToolScope = {}) {
+    await this.ensureInitialized();
     
-    this.client = new JmapJMAPClient({
-      baseUrl,
-      username,
-      password,
-    });
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
 
-    // Test connection
-    await this.client.getMailboxes();
-    this.isInitialized = true;
+    const client = await this.scopedClient(scope);
+    const { emailIds, permanent = false } = args;
+    const result = await client.deleteEmails(emailIds, permanent);
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Moved ${result.movedToTrash.succeeded.length} emails to Trash and permanently deleted ${result.destroyed.succeeded.length} of ${emailIds.length}: ${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleEmptyTrash(scope: ToolScope = {}) {
+    await this.ensureInitialized();
+    
+    if (!this.isConnected(scope)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Not connected to Jmap Mail server. Please use the connect_jmap tool first with your server details.',
+          },
+        ],
+      };
+    }
 
+    const client = await this.scopedClient(scope);
+    const result = await client.emptyTrash();
+    
     return {
       content: [
         {
           type: 'text',
-          text: `Successfully connected to Jmap Mail server at ${baseUrl}`,
+          text: `Emptied ${result.mailbox.name}: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleGetMailboxes() {
+  private async handleEmptyMailbox(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1702,22 +7119,24 @@ class JmapMCPServer {
       };
     }
 
-    const mailboxes = await this.client.getMailboxes();
+    const client = await this.scopedClient(scope);
+    const { mailbox } = args;
+    const result = await client.emptyMailbox(mailbox);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(mailboxes, null, 2),
+          text: `Emptied ${result.mailbox.name}: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleGetEmails(args: any) {
+  private async handleBulkUpdateEmails(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1728,23 +7147,27 @@ class JmapMCPServer {
       };
     }
 
-    const { mailboxId, limit = 50 } = args || {};
-    const result = await this.client.getEmails(mailboxId, limit);
+    const client = await this.scopedClient(scope);
+    const { action, targetMailbox, dryRun = false, maxEmails, ...criteria } = args;
+    const result = await client.bulkUpdateEmails(criteria, action, { mailbox: targetMailbox, dryRun, maxEmails });
+    const summary = result.dryRun
+      ? `Dry run: ${result.matched} emails match, ${result.wouldProcess} would be processed with ${action}`
+      : `Applied ${action} to ${result.succeeded} of ${result.processed} matching emails in ${result.batches.length} batches`;
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2),
+          text: `${summary}: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleGetEmailById(args: any) {
+  private async handleSetKeywords(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1755,23 +7178,24 @@ class JmapMCPServer {
       };
     }
 
-    const { emailId } = args;
-    const result = await this.client.getEmailById(emailId);
+    const client = await this.scopedClient(scope);
+    const { emailIds, add = [], remove = [] } = args;
+    const result = await client.setKeywords(emailIds, add, remove);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2),
+          text: `Updated keywords on ${result.succeeded.length} of ${emailIds.length} emails: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleSearchEmails(args: any) {
+  private async handleFlagEmails(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1782,23 +7206,24 @@ class JmapMCPServer {
       };
     }
 
-    const { query, limit = 20, mailboxId } = args;
-    const result = await this.client.searchEmails(query, limit, mailboxId);
+    const client = await this.scopedClient(scope);
+    const { emailIds, flagged = true } = args;
+    const result = await client.flagEmails(emailIds, flagged);
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2),
+          text: `${flagged ? 'Flagged' : 'Unflagged'} ${result.succeeded.length} of ${emailIds.length} emails: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleSendEmail(args: any) {
+  private async handleListKeywords(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1809,22 +7234,24 @@ class JmapMCPServer {
       };
     }
 
-    const result = await this.client.sendEmail(args);
+    const client = await this.scopedClient(scope);
+    const { mailbox, limit = 500 } = args || {};
+    const result = await client.listKeywords(mailbox, limit);
     
     return {
       content: [
         {
           type: 'text',
-          text: `Email sent successfully: ${JSON.stringify(result, null, 2)}`,
+          text: JSON.stringify(result, null, 2),
         },
       ],
     };
   }
 
-  private async handleMarkAsRead(args: any) {
+  private async handleMoveEmails(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1835,23 +7262,24 @@ class JmapMCPServer {
       };
     }
 
-    const { emailIds } = args;
-    const result = await this.client.markAsRead(emailIds);
+    const client = await this.scopedClient(scope);
+    const { emailIds, mailbox } = args;
+    const result = await client.moveEmails(emailIds, mailbox);
     
     return {
       content: [
         {
           type: 'text',
-          text: `Marked ${emailIds.length} emails as read: ${JSON.stringify(result, null, 2)}`,
+          text: `Moved ${result.succeeded.length} of ${emailIds.length} emails to ${result.targetMailbox.name}: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleMarkAsUnread(args: any) {
+  private async handleCopyEmails(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1862,23 +7290,24 @@ class JmapMCPServer {
       };
     }
 
-    const { emailIds } = args;
-    const result = await this.client.markAsUnread(emailIds);
+    const client = await this.scopedClient(scope);
+    const { emailIds, mailbox } = args;
+    const result = await client.copyEmails(emailIds, mailbox);
     
     return {
       content: [
         {
           type: 'text',
-          text: `Marked ${emailIds.length} emails as unread: ${JSON.stringify(result, null, 2)}`,
+          text: `Copied ${result.succeeded.length} of ${emailIds.length} emails to ${result.targetMailbox.name}: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleDeleteEmails(args: any) {
+  private async handleArchiveEmails(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1889,24 +7318,25 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { emailIds } = args;
-    const result = await this.client.deleteEmails(emailIds);
+    const result = await client.archiveEmails(emailIds);
     
     return {
       content: [
         {
           type: 'text',
-          text: `Deleted ${emailIds.length} emails: ${JSON.stringify(result, null, 2)}`,
+          text: `Archived ${result.succeeded.length} of ${emailIds.length} emails: ${JSON.stringify(result, null, 2)}`,
         },
       ],
     };
   }
 
   // Calendar handlers
-  private async handleGetCalendars() {
+  private async handleGetCalendars(scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1917,7 +7347,8 @@ class JmapMCPServer {
       };
     }
 
-    const calendars = await this.client.getCalendars();
+    const client = await this.scopedClient(scope);
+    const calendars = await client.getCalendars();
     
     return {
       content: [
@@ -1929,10 +7360,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleGetCalendarEvents(args: any) {
+  private async handleGetCalendarEvents(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1943,8 +7374,9 @@ class JmapMCPServer {
       };
     }
 
-    const { calendarId, limit = 50 } = args || {};
-    const result = await this.client.getCalendarEvents(calendarId, limit);
+    const client = await this.scopedClient(scope);
+    const { calendarId, limit = 50, position, anchor, anchorOffset } = args || {};
+    const result = await client.getCalendarEvents(calendarId, limit, { position, anchor, anchorOffset });
     
     return {
       content: [
@@ -1956,10 +7388,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleCreateCalendarEvent(args: any) {
+  private async handleCreateCalendarEvent(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1970,7 +7402,8 @@ class JmapMCPServer {
       };
     }
 
-    const result = await this.client.createCalendarEvent(args);
+    const client = await this.scopedClient(scope);
+    const result = await client.createCalendarEvent(args);
     
     return {
       content: [
@@ -1982,10 +7415,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleUpdateCalendarEvent(args: any) {
+  private async handleUpdateCalendarEvent(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -1996,8 +7429,9 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { eventId, ...updates } = args;
-    const result = await this.client.updateCalendarEvent(eventId, updates);
+    const result = await client.updateCalendarEvent(eventId, updates);
     
     return {
       content: [
@@ -2009,10 +7443,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleDeleteCalendarEvent(args: any) {
+  private async handleDeleteCalendarEvent(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2023,8 +7457,9 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { eventId } = args;
-    const result = await this.client.deleteCalendarEvent(eventId);
+    const result = await client.deleteCalendarEvent(eventId);
     
     return {
       content: [
@@ -2037,10 +7472,10 @@ class JmapMCPServer {
   }
 
   // Contact handlers
-  private async handleGetAddressBooks() {
+  private async handleGetAddressBooks(scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2051,7 +7486,8 @@ class JmapMCPServer {
       };
     }
 
-    const addressBooks = await this.client.getAddressBooks();
+    const client = await this.scopedClient(scope);
+    const addressBooks = await client.getAddressBooks();
     
     return {
       content: [
@@ -2063,10 +7499,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleGetContacts(args: any) {
+  private async handleGetContacts(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2077,8 +7513,9 @@ class JmapMCPServer {
       };
     }
 
-    const { addressBookId, limit = 50 } = args || {};
-    const result = await this.client.getContacts(addressBookId, limit);
+    const client = await this.scopedClient(scope);
+    const { addressBookId, limit = 50, position, anchor, anchorOffset } = args || {};
+    const result = await client.getContacts(addressBookId, limit, { position, anchor, anchorOffset });
     
     return {
       content: [
@@ -2090,10 +7527,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleSearchContacts(args: any) {
+  private async handleSearchContacts(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2104,8 +7541,9 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { query, limit = 20 } = args;
-    const result = await this.client.searchContacts(query, limit);
+    const result = await client.searchContacts(query, limit);
     
     return {
       content: [
@@ -2117,10 +7555,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleCreateContact(args: any) {
+  private async handleCreateContact(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2131,7 +7569,8 @@ class JmapMCPServer {
       };
     }
 
-    const result = await this.client.createContact(args);
+    const client = await this.scopedClient(scope);
+    const result = await client.createContact(args);
     
     return {
       content: [
@@ -2143,10 +7582,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleUpdateContact(args: any) {
+  private async handleUpdateContact(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2157,8 +7596,9 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { contactId, ...updates } = args;
-    const result = await this.client.updateContact(contactId, updates);
+    const result = await client.updateContact(contactId, updates);
     
     return {
       content: [
@@ -2170,10 +7610,10 @@ class JmapMCPServer {
     };
   }
 
-  private async handleDeleteContact(args: any) {
+  private async handleDeleteContact(args: any, scope: ToolScope = {}) {
     await this.ensureInitialized();
     
-    if (!this.client || !this.isInitialized) {
+    if (!this.isConnected(scope)) {
       return {
         content: [
           {
@@ -2184,8 +7624,9 @@ class JmapMCPServer {
       };
     }
 
+    const client = await this.scopedClient(scope);
     const { contactId } = args;
-    const result = await this.client.deleteContact(contactId);
+    const result = await client.deleteContact(contactId);
     
     return {
       content: [
@@ -2204,5 +7645,11 @@ class JmapMCPServer {
   }
 }
 
-const server = new JmapMCPServer();
-server.run().catch(console.error);
+// Pure helpers and the client are exported for the offline tests in tests/
+export { JmapJMAPClient, matchesEmailFilter, replyRecipients, resolvePassword };
+
+// Only start the server when run directly, not when imported by the tests
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const server = new JmapMCPServer();
+  server.run().catch(console.error);
+}
@@ -0,0 +1,161 @@
+/**
+ * Offline tests for the pure helpers in the JMAP MCP Server
+ *
+ * These import the built server (dist/index.js) without starting it and need no JMAP account.
+ * Run with: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JmapJMAPClient, matchesEmailFilter, replyRecipients, resolvePassword } from '../dist/index.js';
+
+const email = {
+  id: 'e1',
+  subject: 'Quarterly report',
+  preview: 'Numbers attached for review',
+  from: [{ name: 'Alice Example', email: 'alice@example.com' }],
+  to: [{ name: 'Bob', email: 'bob@example.com' }],
+  cc: [],
+  bcc: [],
+  receivedAt: '2024-03-10T09:00:00Z',
+  size: 2048,
+  hasAttachment: true,
+  keywords: { $seen: true },
+  mailboxIds: { inbox: true },
+};
+
+describe('matchesEmailFilter', () => {
+  test('matches text against subject, preview and addresses', () => {
+    assert.equal(matchesEmailFilter(email, { text: 'quarterly' }), true);
+    assert.equal(matchesEmailFilter(email, { text: 'review' }), true);
+    assert.equal(matchesEmailFilter(email, { text: 'alice example' }), true);
+    assert.equal(matchesEmailFilter(email, { text: 'invoice' }), false);
+  });
+
+  test('matches address, date, size and keyword conditions', () => {
+    assert.equal(matchesEmailFilter(email, { from: 'ALICE@' }), true);
+    assert.equal(matchesEmailFilter(email, { to: 'alice' }), false);
+    assert.equal(matchesEmailFilter(email, { after: '2024-03-10T09:00:00Z' }), true);
+    assert.equal(matchesEmailFilter(email, { before: '2024-03-10T09:00:00Z' }), false);
+    assert.equal(matchesEmailFilter(email, { minSize: 1024, maxSize: 4096 }), true);
+    assert.equal(matchesEmailFilter(email, { hasKeyword: '$seen' }), true);
+    assert.equal(matchesEmailFilter(email, { notKeyword: '$seen' }), false);
+    assert.equal(matchesEmailFilter(email, { inMailbox: 'inbox' }), true);
+    assert.equal(matchesEmailFilter(email, { inMailboxOtherThan: ['inbox'] }), false);
+  });
+
+  test('evaluates AND, OR and NOT operators', () => {
+    const matching = { from: 'alice' };
+    const failing = { subject: 'invoice' };
+    assert.equal(matchesEmailFilter(email, { operator: 'AND', conditions: [matching, failing] }), false);
+    assert.equal(matchesEmailFilter(email, { operator: 'OR', conditions: [matching, failing] }), true);
+    assert.equal(matchesEmailFilter(email, { operator: 'NOT', conditions: [failing] }), true);
+    assert.equal(matchesEmailFilter(email, { operator: 'NOT', conditions: [matching] }), false);
+  });
+});
+
+describe('buildSearchFilter', () => {
+  // Mailbox names resolve without a server by stubbing the lookup
+  const client = new JmapJMAPClient({ baseUrl: 'https://jmap.example.com', username: 'me', password: 'secret' });
+  client.resolveMailboxId = async (mailbox) => `id-${mailbox}`;
+
+  test('maps the query and mailboxId shorthands', async () => {
+    assert.deepEqual(
+      await client.buildSearchFilter({ query: 'report', mailboxId: 'Inbox' }),
+      { text: 'report', inMailbox: 'id-Inbox' }
+    );
+  });
+
+  test('normalises dates to UTCDate', async () => {
+    assert.deepEqual(
+      await client.buildSearchFilter({ after: '2024-01-15' }),
+      { after: '2024-01-15T00:00:00Z' }
+    );
+    await assert.rejects(client.buildSearchFilter({ before: 'yesterday' }), /Invalid before date/);
+  });
+
+  test('ANDs top-level fields with a composite filter', async () => {
+    const filter = await client.buildSearchFilter({
+      from: 'alice',
+      filter: { operator: 'or', conditions: [{ subject: 'report' }, { inMailbox: 'Archive' }] },
+    });
+    assert.deepEqual(filter, {
+      operator: 'AND',
+      conditions: [
+        { from: 'alice' },
+        { operator: 'OR', conditions: [{ subject: 'report' }, { inMailbox: 'id-Archive' }] },
+      ],
+    });
+  });
+
+  test('rejects empty criteria and invalid operators', async () => {
+    await assert.rejects(client.buildSearchFilter({}), /At least one search criterion is required/);
+    await assert.rejects(client.buildSearchFilter({ filter: { operator: 'XOR', conditions: [{ from: 'a' }] } }), /Invalid filter operator/);
+    await assert.rejects(client.buildSearchFilter({ filter: { operator: 'AND', conditions: [] } }), /non-empty conditions array/);
+  });
+});
+
+describe('replyRecipients', () => {
+  const original = {
+    from: [{ email: 'alice@example.com' }],
+    to: [{ email: 'me@example.com' }, { email: 'bob@example.com' }],
+    cc: [{ email: 'carol@example.com' }, { email: 'Alice@Example.com' }],
+  };
+
+  test('replies to the sender only', () => {
+    assert.deepEqual(replyRecipients(original, ['me@example.com'], false), { to: ['alice@example.com'], cc: [] });
+  });
+
+  test('prefers Reply-To over From', () => {
+    const withReplyTo = { ...original, replyTo: [{ email: 'list@example.com' }] };
+    assert.deepEqual(replyRecipients(withReplyTo, ['me@example.com'], false).to, ['list@example.com']);
+  });
+
+  test('reply all drops our own addresses and duplicates', () => {
+    assert.deepEqual(replyRecipients(original, ['me@example.com'], true), {
+      to: ['alice@example.com', 'bob@example.com'],
+      cc: ['carol@example.com'],
+    });
+  });
+
+  test('replying to our own message goes back to its recipients', () => {
+    const sent = { from: [{ email: 'me@example.com' }], to: [{ email: 'bob@example.com' }] };
+    assert.deepEqual(replyRecipients(sent, ['me@example.com'], false), { to: ['bob@example.com'], cc: [] });
+  });
+});
+
+describe('resolvePassword', () => {
+  const baseUrl = 'https://jmap.example.com';
+
+  test('prefers passwordCommand and strips the trailing newline', async () => {
+    assert.equal(await resolvePassword({ baseUrl, passwordCommand: 'echo from-command', password: 'plain' }), 'from-command');
+  });
+
+  test('reports a failing or silent passwordCommand', async () => {
+    await assert.rejects(resolvePassword({ baseUrl, passwordCommand: 'exit 3' }), /passwordCommand failed/);
+    await assert.rejects(resolvePassword({ baseUrl, passwordCommand: 'true' }), /it printed nothing/);
+  });
+
+  test('reads passwordFile and refuses files other users can read', { skip: process.platform === 'win32' }, async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'jmap-mcp-test-'));
+    try {
+      const passwordFile = join(dir, 'password');
+      writeFileSync(passwordFile, 'from-file\n', { mode: 0o600 });
+      assert.equal(await resolvePassword({ baseUrl, passwordFile, password: 'plain' }), 'from-file');
+
+      const openFile = join(dir, 'open-password');
+      writeFileSync(openFile, 'from-file\n', { mode: 0o644 });
+      await assert.rejects(resolvePassword({ baseUrl, passwordFile: openFile }), /accessible by other users/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('falls back to the plain password', async () => {
+    assert.equal(await resolvePassword({ baseUrl, password: 'plain' }), 'plain');
+    await assert.rejects(resolvePassword({ baseUrl }), /No password configured/);
+  });
+});
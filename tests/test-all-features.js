@@ -146,6 +146,33 @@ class MCPTester {
     }
   }
 
+  async testConnectRefusesSecrets(tools, credentials) {
+    console.log('\n=== Test 2b: connect_jmap Refuses Password Arguments ===');
+    if (process.env.JMAP_ALLOW_PASSWORD_ARGUMENTS === 'true') {
+      console.log('⏭️  Skipped: JMAP_ALLOW_PASSWORD_ARGUMENTS is enabled');
+      return;
+    }
+
+    const connectTool = tools.find(t => t.name === 'connect_jmap');
+    if (connectTool.inputSchema.properties.password || connectTool.inputSchema.properties.token) {
+      throw new Error('connect_jmap advertises password/token arguments although they are not allowed');
+    }
+
+    try {
+      await this.sendRequest('tools/call', {
+        name: 'connect_jmap',
+        arguments: credentials
+      });
+    } catch (error) {
+      if (/disabled/.test(error.message)) {
+        console.log('✅ Password argument refused');
+        return;
+      }
+      throw error;
+    }
+    throw new Error('connect_jmap accepted a password argument');
+  }
+
   async testGetMailboxes() {
     console.log('\n=== Test 3: Get Mailboxes ===');
     try {
@@ -153,9 +180,10 @@ class MCPTester {
         name: 'get_mailboxes',
         arguments: {}
       });
-      const mailboxes = JSON.parse(result.content[0].text);
-      console.log('✅ Found mailboxes:', mailboxes.list?.map(m => `${m.name} (${m.role || 'no role'})`) || 'No mailboxes found');
-      return mailboxes;
+      const mailboxTree = result.content[0].text;
+      console.log('✅ Found mailboxes:');
+      console.log(mailboxTree);
+      return mailboxTree;
     } catch (error) {
       console.error('❌ Failed to get mailboxes:', error.message);
       throw error;
@@ -282,6 +310,22 @@ class MCPTester {
     }
   }
 
+  async testGetIdentities() {
+    console.log('\n=== Test 10: Get Identities ===');
+    try {
+      const result = await this.sendRequest('tools/call', {
+        name: 'get_identities',
+        arguments: {}
+      });
+      const identities = JSON.parse(result.content[0].text);
+      console.log('✅ Found identities:', identities.list?.map(i => `${i.name || '(no name)'} <${i.email}> (${i.id})`) || 'No identities found');
+      return identities;
+    } catch (error) {
+      console.error('❌ Failed to get identities:', error.message);
+      throw error;
+    }
+  }
+
   async runAllTests() {
     console.log('🧪 Starting Comprehensive JMAP MCP Server Tests');
     console.log('=' * 60);
@@ -306,8 +350,9 @@ class MCPTester {
         return;
       }
 
-      // Test 2: Connection
-      await this.testConnection(credentials);
+      // Test 2: Connection, using the configured password rather than a tool argument
+      await this.testConnection({ baseUrl: credentials.baseUrl, username: credentials.username });
+      await this.testConnectRefusesSecrets(tools, credentials);
 
       // Test 3: Get mailboxes
       const mailboxes = await this.testGetMailboxes();
@@ -328,6 +373,9 @@ class MCPTester {
       // Test 6: Search emails
       await this.testSearchEmails('test');
 
+      // Test 10: Get identities
+      await this.testGetIdentities();
+
       // Test 7: Send email (requires a test recipient)
       const testRecipient = process.env.TEST_EMAIL_RECIPIENT || credentials.username;
       console.log(`\n📧 Testing email sending to: ${testRecipient}`);